@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { createSnapshot, listSnapshots, restoreSnapshot } from './backup.ts'
+import { getBackupDir } from './paths.ts'
+
+describe('backup', () => {
+  const testDir = useTempConfigDir('backup')
+  const opencodePath = join(testDir, 'opencode.json')
+  const pluginPath = join(testDir, 'agent-mode-switcher.json')
+
+  test('backup directory lives in the config directory', () => {
+    expect(getBackupDir()).toBe(join(testDir, 'agent-mode-switcher-backups'))
+  })
+
+  describe('createSnapshot', () => {
+    test('copies existing files and writes a manifest', async () => {
+      await Bun.write(opencodePath, '{ "model": "a" }')
+      await Bun.write(pluginPath, '{ "currentMode": "performance" }')
+
+      const manifest = await createSnapshot(
+        [opencodePath, pluginPath, join(testDir, 'missing.json')],
+        'switch to economy',
+        10
+      )
+
+      expect(manifest?.reason).toBe('switch to economy')
+      expect(manifest?.files.map((f) => f.path)).toEqual([
+        opencodePath,
+        pluginPath,
+      ])
+
+      const snapshots = await listSnapshots()
+      expect(snapshots).toHaveLength(1)
+      expect(snapshots[0]?.id).toBe(manifest?.id as string)
+    })
+
+    test('returns null when no file exists', async () => {
+      const manifest = await createSnapshot([opencodePath], 'switch', 10)
+      expect(manifest).toBe(null)
+      expect(await listSnapshots()).toEqual([])
+    })
+
+    test('returns null when retention is 0', async () => {
+      await Bun.write(opencodePath, '{}')
+      expect(await createSnapshot([opencodePath], 'switch', 0)).toBe(null)
+    })
+
+    test('rotates out snapshots beyond the retention', async () => {
+      await Bun.write(opencodePath, '{}')
+      for (let i = 0; i < 4; i++) {
+        await createSnapshot([opencodePath], `switch ${i}`, 2)
+      }
+
+      const snapshots = await listSnapshots()
+      expect(snapshots.map((s) => s.reason)).toEqual(['switch 3', 'switch 2'])
+    })
+  })
+
+  describe('restoreSnapshot', () => {
+    test('restores all files of the snapshot', async () => {
+      await Bun.write(opencodePath, '{ "model": "a" }')
+      await Bun.write(pluginPath, '{ "currentMode": "performance" }')
+      const manifest = await createSnapshot(
+        [opencodePath, pluginPath],
+        'switch to economy',
+        10
+      )
+
+      await Bun.write(opencodePath, '{ "model": "b" }')
+      await Bun.write(pluginPath, '{ "currentMode": "economy" }')
+
+      await restoreSnapshot(manifest?.id as string)
+
+      expect(await Bun.file(opencodePath).text()).toBe('{ "model": "a" }')
+      expect(await Bun.file(pluginPath).text()).toBe(
+        '{ "currentMode": "performance" }'
+      )
+    })
+
+    test('throws for unknown snapshots', async () => {
+      await expect(restoreSnapshot('does-not-exist')).rejects.toThrow(
+        'Snapshot "does-not-exist" not found'
+      )
+    })
+  })
+})
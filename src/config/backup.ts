@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Configuration snapshots for rollback.
+ *
+ * Before the plugin writes configuration files, the current contents are
+ * copied into a snapshot directory under
+ * `~/.config/opencode/agent-mode-switcher-backups/<id>/` together with a
+ * `manifest.json` describing the original locations. Old snapshots are
+ * rotated out according to the configured retention.
+ *
+ * @module config/backup
+ */
+
+import { existsSync } from 'node:fs'
+import {
+  copyFile,
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  writeFile,
+} from 'node:fs/promises'
+import { basename, join } from 'node:path'
+import { getBackupDir } from './paths.ts'
+import { type FileWrite, commitFileWrites } from './transaction.ts'
+
+/**
+ * Name of the manifest file stored in every snapshot directory.
+ */
+const MANIFEST_FILE = 'manifest.json'
+
+/**
+ * A file captured in a snapshot.
+ */
+export interface SnapshotFile {
+  /** Absolute path of the original file */
+  path: string
+  /** File name of the copy inside the snapshot directory */
+  backup: string
+}
+
+/**
+ * Metadata describing a snapshot.
+ */
+export interface SnapshotManifest {
+  /** Snapshot identifier (also the directory name) */
+  id: string
+  /** ISO 8601 timestamp of when the snapshot was taken */
+  createdAt: string
+  /** Human-readable reason, e.g. "switch to economy" */
+  reason: string
+  /** Files contained in the snapshot */
+  files: SnapshotFile[]
+}
+
+/**
+ * Creates a unique, lexicographically sortable snapshot identifier.
+ *
+ * @param backupDir - Directory holding all snapshots
+ * @returns A snapshot ID such as "2026-01-15T09-30-00-000Z"
+ * @private
+ */
+function createSnapshotId(backupDir: string): string {
+  const base = new Date().toISOString().replace(/[:.]/g, '-')
+  let id = base
+  for (let i = 1; existsSync(join(backupDir, id)); i++) {
+    id = `${base}-${i}`
+  }
+  return id
+}
+
+/**
+ * Reads the manifest of a snapshot.
+ *
+ * @param snapshotDir - Absolute path of the snapshot directory
+ * @returns The manifest, or null if it is missing or unreadable
+ * @private
+ */
+async function readManifest(
+  snapshotDir: string
+): Promise<SnapshotManifest | null> {
+  try {
+    const content = await readFile(join(snapshotDir, MANIFEST_FILE), 'utf8')
+    return JSON.parse(content) as SnapshotManifest
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lists all snapshots, newest first.
+ *
+ * @returns Promise resolving to the manifests of all valid snapshots
+ * @example
+ * ```typescript
+ * const snapshots = await listSnapshots();
+ * console.log(snapshots[0]?.reason); // "switch to economy"
+ * ```
+ */
+export async function listSnapshots(): Promise<SnapshotManifest[]> {
+  const backupDir = getBackupDir()
+  if (!existsSync(backupDir)) {
+    return []
+  }
+
+  const entries = await readdir(backupDir, { withFileTypes: true })
+  const ids = entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort()
+    .reverse()
+
+  const manifests: SnapshotManifest[] = []
+  for (const id of ids) {
+    const manifest = await readManifest(join(backupDir, id))
+    if (manifest) {
+      manifests.push(manifest)
+    }
+  }
+  return manifests
+}
+
+/**
+ * Removes the oldest snapshots beyond the retention limit.
+ *
+ * @param retention - Number of snapshots to keep
+ * @private
+ */
+async function pruneSnapshots(retention: number): Promise<void> {
+  const backupDir = getBackupDir()
+  const snapshots = await listSnapshots()
+  for (const snapshot of snapshots.slice(retention)) {
+    await rm(join(backupDir, snapshot.id), { recursive: true, force: true })
+  }
+}
+
+/**
+ * Copies the given files into a new snapshot and rotates old snapshots.
+ *
+ * Files that don't exist are skipped. No snapshot is created when none of
+ * the files exist or when `retention` is 0.
+ *
+ * @param filePaths - Absolute paths of the files about to be written
+ * @param reason - Human-readable reason stored in the manifest
+ * @param retention - Number of snapshots to keep
+ * @returns Promise resolving to the new snapshot's manifest, or null if none was created
+ * @throws {Error} If the snapshot cannot be written
+ * @example
+ * ```typescript
+ * await createSnapshot([getOpencodeConfigPath()], 'switch to economy', 10);
+ * ```
+ */
+export async function createSnapshot(
+  filePaths: string[],
+  reason: string,
+  retention: number
+): Promise<SnapshotManifest | null> {
+  const existing = [...new Set(filePaths)].filter((path) => existsSync(path))
+  if (retention <= 0 || existing.length === 0) {
+    return null
+  }
+
+  const backupDir = getBackupDir()
+  const id = createSnapshotId(backupDir)
+  const snapshotDir = join(backupDir, id)
+  await mkdir(snapshotDir, { recursive: true })
+
+  const files: SnapshotFile[] = []
+  for (const [index, path] of existing.entries()) {
+    const backup = `${index}-${basename(path)}`
+    await copyFile(path, join(snapshotDir, backup))
+    files.push({ path, backup })
+  }
+
+  const manifest: SnapshotManifest = {
+    id,
+    createdAt: new Date().toISOString(),
+    reason,
+    files,
+  }
+  await writeFile(
+    join(snapshotDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2)
+  )
+
+  await pruneSnapshots(retention)
+  return manifest
+}
+
+/**
+ * Restores every file of a snapshot to its original location.
+ *
+ * All backup copies are read first and then written as a single
+ * transaction (see {@link commitFileWrites}): if any file cannot be
+ * restored, the files already restored are reverted.
+ *
+ * @param id - The snapshot identifier
+ * @returns Promise resolving to the manifest of the restored snapshot
+ * @throws {Error} If the snapshot does not exist or its files cannot be read
+ * @throws {TransactionError} If a file cannot be written
+ * @example
+ * ```typescript
+ * const manifest = await restoreSnapshot('2026-01-15T09-30-00-000Z');
+ * console.log(manifest.files.map((f) => f.path));
+ * ```
+ */
+export async function restoreSnapshot(id: string): Promise<SnapshotManifest> {
+  const snapshotDir = join(getBackupDir(), basename(id))
+  const manifest = await readManifest(snapshotDir)
+  if (!manifest) {
+    throw new Error(`Snapshot "${id}" not found`)
+  }
+
+  const writes: FileWrite[] = []
+  for (const file of manifest.files) {
+    writes.push({
+      path: file.path,
+      content: await readFile(join(snapshotDir, file.backup)),
+    })
+  }
+
+  await commitFileWrites(writes)
+  return manifest
+}
@@ -0,0 +1,140 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  writeFileSync,
+} from 'node:fs'
+import { join } from 'node:path'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { copyCommandFiles, syncCommandFiles } from './command-installer.ts'
+import { getCommandManifestPath } from './paths.ts'
+
+describe('command-installer', () => {
+  const testDir = useTempConfigDir('command')
+  const commandDir = join(testDir, 'command')
+  const modePath = join(commandDir, 'mode.md')
+
+  /**
+   * Reads the file names recorded in the command manifest.
+   */
+  const readManifestFiles = () =>
+    Object.keys(
+      JSON.parse(readFileSync(getCommandManifestPath(), 'utf8')).files
+    )
+
+  /**
+   * Writes a file into the command directory.
+   */
+  const writeCommand = (file: string, content: string) => {
+    mkdirSync(commandDir, { recursive: true })
+    writeFileSync(join(commandDir, file), content)
+  }
+
+  describe('copyCommandFiles', () => {
+    test('installs the /mode command', () => {
+      const result = copyCommandFiles()
+
+      expect(result?.created).toEqual([modePath])
+      expect(readdirSync(commandDir)).toEqual(['mode.md'])
+      expect(readFileSync(modePath, 'utf8')).toContain('$ARGUMENTS')
+    })
+  })
+
+  describe('syncCommandFiles', () => {
+    test('records installed files in the manifest', () => {
+      syncCommandFiles()
+
+      expect(readManifestFiles()).toEqual(['mode.md'])
+    })
+
+    test('changes nothing when the files are up to date', () => {
+      syncCommandFiles()
+
+      expect(syncCommandFiles()).toEqual({
+        created: [],
+        updated: [],
+        removed: [],
+        skipped: [],
+      })
+    })
+
+    test('updates a plugin-owned file whose shipped content changed', () => {
+      syncCommandFiles()
+      // Simulate an older installed version of the command
+      const manifestPath = getCommandManifestPath()
+      writeCommand('mode.md', 'old version')
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'))
+      manifest.files['mode.md'] = new Bun.CryptoHasher('sha256')
+        .update('old version')
+        .digest('hex')
+      writeFileSync(manifestPath, JSON.stringify(manifest))
+
+      const result = syncCommandFiles()
+
+      expect(result.updated).toEqual([modePath])
+      expect(readFileSync(modePath, 'utf8')).toContain('$ARGUMENTS')
+    })
+
+    test('never overwrites a file modified by the user', () => {
+      syncCommandFiles()
+      writeCommand('mode.md', 'my mode command')
+
+      expect(syncCommandFiles().skipped).toEqual([modePath])
+      expect(readFileSync(modePath, 'utf8')).toBe('my mode command')
+      expect(readManifestFiles()).toEqual([])
+    })
+
+    test('keeps a file created by the user before installation', () => {
+      writeCommand('mode.md', 'custom')
+
+      expect(syncCommandFiles().skipped).toEqual([modePath])
+      expect(readFileSync(modePath, 'utf8')).toBe('custom')
+    })
+
+    test('removes plugin-owned files that are no longer shipped', () => {
+      syncCommandFiles()
+      writeCommand('mode-old.md', 'obsolete')
+      const manifestPath = getCommandManifestPath()
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'))
+      manifest.files['mode-old.md'] = new Bun.CryptoHasher('sha256')
+        .update('obsolete')
+        .digest('hex')
+      writeFileSync(manifestPath, JSON.stringify(manifest))
+
+      const result = syncCommandFiles()
+
+      expect(result.removed).toEqual([join(commandDir, 'mode-old.md')])
+      expect(existsSync(join(commandDir, 'mode-old.md'))).toBe(false)
+      expect(readManifestFiles()).toEqual(['mode.md'])
+    })
+
+    test('cleans up the per-mode commands of earlier versions', () => {
+      writeCommand('mode-status.md', 'Use mode_status tool.')
+      writeCommand(
+        'mode-economy.md',
+        [
+          '---',
+          'description: "Switch to economy mode (cost-efficient models)"',
+          '---',
+          '',
+          'Use mode_switch tool to switch agent mode to "economy".',
+          '',
+        ].join('\n')
+      )
+      writeCommand('mode-review.md', 'my own review command')
+
+      const result = syncCommandFiles()
+
+      expect(result.removed.sort()).toEqual([
+        join(commandDir, 'mode-economy.md'),
+        join(commandDir, 'mode-status.md'),
+      ])
+      expect(readdirSync(commandDir).sort()).toEqual([
+        'mode-review.md',
+        'mode.md',
+      ])
+    })
+  })
+})
@@ -1,28 +1,65 @@
 /**
  * @fileoverview Command file installer for OpenCode slash commands.
  *
- * This module handles copying slash command markdown files from the plugin's
- * commands directory to OpenCode's configuration directory during plugin
- * initialization. This ensures command files are available without requiring
- * manual postinstall script execution.
+ * This module installs the plugin's slash command markdown files from the
+ * plugin's commands directory in OpenCode's configuration directory during
+ * plugin initialization, so command files are available without requiring
+ * manual postinstall script execution. A single `/mode` command covers
+ * every preset, so no file needs to be added per mode.
+ *
+ * Installed files are recorded with their content hash in a manifest.
+ * Only files whose content still matches the manifest are updated or
+ * removed, so command files edited by the user are never overwritten.
  *
  * @module config/command-installer
  */
 
-import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'node:fs'
-import { homedir } from 'node:os'
+import { createHash } from 'node:crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
 import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { isObject } from './guards.ts'
+import { getCommandManifestPath, getCommandsDir } from './paths.ts'
 
 /**
- * Target directory for OpenCode command files.
- *
- * This is the standard location where OpenCode looks for slash command
- * markdown files: `~/.config/opencode/command/`
- *
- * @constant
+ * Command files shipped by earlier versions, which overwrote them on
+ * every startup.
+ */
+const LEGACY_COMMAND_FILES = ['mode-status.md', 'mode-list.md']
+
+/**
+ * Per-mode command file names of earlier versions, capturing the mode name.
+ */
+const LEGACY_MODE_COMMAND_PATTERN = /^mode-(.+)\.md$/
+
+/**
+ * Manifest of the command files installed by the plugin.
+ */
+interface CommandManifest {
+  /** SHA-256 of the installed content, by file name */
+  files: Record<string, string>
+}
+
+/**
+ * Result of {@link syncCommandFiles}.
  */
-const COMMANDS_DEST = join(homedir(), '.config', 'opencode', 'command')
+export interface CommandSyncResult {
+  /** Paths of command files created */
+  created: string[]
+  /** Paths of plugin-owned command files updated */
+  updated: string[]
+  /** Paths of plugin-owned command files removed because they are no longer needed */
+  removed: string[]
+  /** Paths of command files left untouched because the user modified them */
+  skipped: string[]
+}
 
 /**
  * Finds the commands source directory.
@@ -61,52 +98,235 @@ function findCommandsDir(): string | null {
 }
 
 /**
- * Copies slash command markdown files to OpenCode's command directory.
+ * Computes the content hash recorded in the manifest.
  *
- * This function is called during plugin initialization to ensure
- * command files are available without manual postinstall execution.
- * It creates the destination directory if it doesn't exist and copies
- * all `.md` files from the source commands directory.
+ * @param content - File content
+ * @returns Hex-encoded SHA-256 of the content
+ * @private
+ */
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Reads the command manifest.
  *
- * The function is designed to be non-fatal: if copying fails (e.g., due to
- * permission issues), it logs a warning but doesn't throw an error,
- * allowing the plugin to continue initializing.
+ * @returns The manifest, or null if none was written yet or it is unreadable
+ * @private
+ */
+function readManifest(): CommandManifest | null {
+  const path = getCommandManifestPath()
+  if (!existsSync(path)) {
+    return null
+  }
+  try {
+    const manifest: unknown = JSON.parse(readFileSync(path, 'utf8'))
+    if (isObject(manifest) && isObject(manifest.files)) {
+      return manifest as unknown as CommandManifest
+    }
+  } catch {
+    // An unreadable manifest is rebuilt like a missing one
+  }
+  return null
+}
+
+/**
+ * Reads the command files shipped with the plugin.
+ *
+ * @returns Content of each command file, by file name
+ * @throws {Error} If the commands source directory cannot be found or read
+ * @private
+ */
+function readShippedCommandFiles(): Map<string, string> {
+  const commandsSrc = findCommandsDir()
+  if (!commandsSrc) {
+    throw new Error('Commands source directory not found')
+  }
+
+  const files = new Map<string, string>()
+  for (const file of readdirSync(commandsSrc)) {
+    if (file.endsWith('.md')) {
+      files.set(file, readFileSync(join(commandsSrc, file), 'utf8'))
+    }
+  }
+  return files
+}
+
+/**
+ * Checks whether a command file was installed by a version of the plugin
+ * that predates the manifest.
+ *
+ * The built-in commands of those versions were overwritten on every
+ * startup, so they are always owned. Per-mode commands are recognized by
+ * their generated layout, which only differs in the description.
+ *
+ * @param file - File name
+ * @param content - Current content of the file
+ * @returns True if the plugin may take over the file
+ * @private
+ */
+function isLegacyPluginFile(file: string, content: string): boolean {
+  if (LEGACY_COMMAND_FILES.includes(file)) {
+    return true
+  }
+  const modeName = LEGACY_MODE_COMMAND_PATTERN.exec(file)?.[1]
+  if (modeName === undefined) {
+    return false
+  }
+  const lines = content.trimEnd().split('\n')
+  return (
+    lines.length === 5 &&
+    lines[0] === '---' &&
+    lines[1]?.startsWith('description: ') === true &&
+    lines[2] === '---' &&
+    lines[3] === '' &&
+    lines[4] === `Use mode_switch tool to switch agent mode to "${modeName}".`
+  )
+}
+
+/**
+ * Determines the files owned by the plugin when no manifest exists yet.
+ *
+ * Files installed by earlier versions (see {@link isLegacyPluginFile})
+ * are taken over, so that they can be cleaned up.
+ *
+ * @param commandsDest - The command directory
+ * @returns Content hashes of the owned files, by file name
+ * @private
+ */
+function adoptLegacyFiles(commandsDest: string): Record<string, string> {
+  const owned: Record<string, string> = {}
+  for (const file of readdirSync(commandsDest)) {
+    if (!file.endsWith('.md')) continue
+
+    const content = readFileSync(join(commandsDest, file), 'utf8')
+    if (isLegacyPluginFile(file, content)) {
+      owned[file] = hashContent(content)
+    }
+  }
+  return owned
+}
+
+/**
+ * Synchronizes the installed slash command files with the command files
+ * shipped with the plugin.
  *
- * @returns Number of files successfully copied, or -1 if source directory
- *          not found or an error occurred during copying
+ * Missing files are created. Plugin-owned files are updated when the
+ * shipped content changes, and removed when they are no longer shipped.
+ * A file the user modified since it was installed, or created themselves,
+ * is never touched and is no longer owned by the plugin.
  *
+ * Ownership is tracked in a manifest of content hashes (see
+ * {@link getCommandManifestPath}). When no manifest exists yet, files
+ * installed by earlier versions are taken over, so that the per-mode
+ * commands they installed are cleaned up.
+ *
+ * @returns The created, updated, removed and skipped command files
+ * @throws {Error} If a command file or the manifest cannot be read or written
  * @example
  * ```typescript
- * const copied = copyCommandFiles();
- * if (copied > 0) {
- *   console.log(`Copied ${copied} command files`);
- * }
+ * const { created, removed } = syncCommandFiles();
  * ```
  */
-export function copyCommandFiles(): number {
-  const commandsSrc = findCommandsDir()
+export function syncCommandFiles(): CommandSyncResult {
+  const shipped = readShippedCommandFiles()
+  const commandsDest = getCommandsDir()
+  mkdirSync(commandsDest, { recursive: true })
 
-  // Skip if commands directory doesn't exist
-  if (!commandsSrc) {
-    return -1
+  const owned = readManifest()?.files ?? adoptLegacyFiles(commandsDest)
+  const result: CommandSyncResult = {
+    created: [],
+    updated: [],
+    removed: [],
+    skipped: [],
   }
 
-  try {
-    mkdirSync(COMMANDS_DEST, { recursive: true })
+  /** Whether a file still has the content the plugin installed */
+  const isUnmodified = (file: string, content: string) =>
+    owned[file] === hashContent(content)
 
-    const files = readdirSync(commandsSrc).filter((f) => f.endsWith('.md'))
+  for (const [file, content] of shipped) {
+    const path = join(commandsDest, file)
+    if (!existsSync(path)) {
+      writeFileSync(path, content)
+      owned[file] = hashContent(content)
+      result.created.push(path)
+      continue
+    }
 
-    for (const file of files) {
-      copyFileSync(join(commandsSrc, file), join(COMMANDS_DEST, file))
+    const existing = readFileSync(path, 'utf8')
+    if (existing === content) {
+      owned[file] = hashContent(content)
+    } else if (isUnmodified(file, existing)) {
+      writeFileSync(path, content)
+      owned[file] = hashContent(content)
+      result.updated.push(path)
+    } else {
+      delete owned[file]
+      result.skipped.push(path)
     }
+  }
+
+  for (const file of Object.keys(owned)) {
+    if (shipped.has(file)) continue
 
-    return files.length
+    const path = join(commandsDest, file)
+    if (existsSync(path)) {
+      if (isUnmodified(file, readFileSync(path, 'utf8'))) {
+        rmSync(path)
+        result.removed.push(path)
+      } else {
+        result.skipped.push(path)
+      }
+    }
+    delete owned[file]
+  }
+
+  const manifestContent = `${JSON.stringify({ files: owned }, null, 2)}\n`
+  const manifestPath = getCommandManifestPath()
+  if (
+    !existsSync(manifestPath) ||
+    readFileSync(manifestPath, 'utf8') !== manifestContent
+  ) {
+    writeFileSync(manifestPath, manifestContent)
+  }
+  return result
+}
+
+/**
+ * Installs the slash command files in OpenCode's command directory.
+ *
+ * The destination is `~/.config/opencode/command/` by default, or the
+ * `command` directory under the overridden configuration directory
+ * (see {@link getCommandsDir}).
+ *
+ * This function is called during plugin initialization to ensure
+ * command files are available without manual postinstall execution.
+ * See {@link syncCommandFiles} for which files are written.
+ *
+ * The function is designed to be non-fatal: if installing fails (e.g., due
+ * to permission issues), it logs a warning but doesn't throw an error,
+ * allowing the plugin to continue initializing.
+ *
+ * @returns The changed command files, or null if an error occurred
+ *
+ * @example
+ * ```typescript
+ * const result = copyCommandFiles();
+ * if (result && result.created.length > 0) {
+ *   console.log(`Installed ${result.created.length} command files`);
+ * }
+ * ```
+ */
+export function copyCommandFiles(): CommandSyncResult | null {
+  try {
+    return syncCommandFiles()
   } catch (error) {
     // Non-fatal: log warning but don't block plugin initialization
     console.warn(
       '[agent-mode-switcher] Warning: Could not copy command files:',
       error instanceof Error ? error.message : String(error)
     )
-    return -1
+    return null
   }
 }
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test'
+import { createUnifiedDiff } from './diff.ts'
+
+describe('diff', () => {
+  describe('createUnifiedDiff', () => {
+    test('returns empty string for identical content', () => {
+      const content = '{\n  "model": "a"\n}'
+      expect(createUnifiedDiff('opencode.json', content, content)).toBe('')
+    })
+
+    test('produces a unified diff for a changed line', () => {
+      const before = '{\n  // comment\n  "model": "a"\n}'
+      const after = '{\n  // comment\n  "model": "b"\n}'
+
+      expect(createUnifiedDiff('opencode.json', before, after)).toBe(
+        [
+          '--- opencode.json',
+          '+++ opencode.json',
+          '@@ -1,4 +1,4 @@',
+          ' {',
+          '   // comment',
+          '-  "model": "a"',
+          '+  "model": "b"',
+          ' }',
+        ].join('\n')
+      )
+    })
+
+    test('uses /dev/null for new files', () => {
+      const diff = createUnifiedDiff('new.json', null, '{}')
+      expect(diff).toBe(
+        ['--- /dev/null', '+++ new.json', '@@ -0,0 +1 @@', '+{}'].join('\n')
+      )
+    })
+
+    test('splits distant changes into separate hunks', () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+      const changed = [...lines]
+      changed[1] = 'changed 2'
+      changed[17] = 'changed 18'
+
+      const diff = createUnifiedDiff(
+        'file',
+        lines.join('\n'),
+        changed.join('\n')
+      )
+      const hunkHeaders = diff.split('\n').filter((l) => l.startsWith('@@'))
+
+      expect(hunkHeaders).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@'])
+    })
+
+    test('reports added and removed lines', () => {
+      const diff = createUnifiedDiff('file', 'a\nb\nc', 'a\nc\nd')
+      expect(diff.split('\n').slice(2)).toEqual([
+        '@@ -1,3 +1,3 @@',
+        ' a',
+        '-b',
+        ' c',
+        '+d',
+      ])
+    })
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Line-based unified diff generation.
+ *
+ * Used to preview configuration file changes without writing them.
+ * Configuration files are small, so a straightforward LCS table is used
+ * instead of a more elaborate diff algorithm.
+ *
+ * @module config/diff
+ */
+
+/**
+ * A single line of an edit script.
+ */
+interface DiffLine {
+  type: 'context' | 'add' | 'remove'
+  text: string
+}
+
+/**
+ * Splits text into lines, ignoring the empty line after a trailing newline.
+ *
+ * @param text - Text to split
+ * @returns Array of lines without line terminators
+ * @private
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return []
+  }
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+/**
+ * Computes the edit script turning `a` into `b` using a longest common
+ * subsequence table.
+ *
+ * @param a - Original lines
+ * @param b - New lines
+ * @returns Sequence of context, added and removed lines
+ * @private
+ */
+function computeEditScript(a: string[], b: string[]): DiffLine[] {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const lcs = new Uint32Array(rows * cols)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        a[i] === b[j]
+          ? (lcs[(i + 1) * cols + j + 1] as number) + 1
+          : Math.max(
+              lcs[(i + 1) * cols + j] as number,
+              lcs[i * cols + j + 1] as number
+            )
+    }
+  }
+
+  const script: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      script.push({ type: 'context', text: a[i] as string })
+      i++
+      j++
+    } else if (
+      (lcs[(i + 1) * cols + j] as number) >= (lcs[i * cols + j + 1] as number)
+    ) {
+      script.push({ type: 'remove', text: a[i] as string })
+      i++
+    } else {
+      script.push({ type: 'add', text: b[j] as string })
+      j++
+    }
+  }
+  while (i < a.length) {
+    script.push({ type: 'remove', text: a[i++] as string })
+  }
+  while (j < b.length) {
+    script.push({ type: 'add', text: b[j++] as string })
+  }
+  return script
+}
+
+/**
+ * Formats a hunk range for the `@@` header.
+ *
+ * @param start - Zero-based index of the first line in the hunk
+ * @param count - Number of lines in the hunk
+ * @returns Range in unified diff notation (e.g., "3,4" or "0,0")
+ * @private
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start},0`
+  }
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param filePath - Path shown in the diff header
+ * @param before - Original content, or null if the file does not exist yet
+ * @param after - New content
+ * @param context - Number of unchanged lines shown around each change (default: 3)
+ * @returns The unified diff, or an empty string if the contents are identical
+ * @example
+ * ```typescript
+ * createUnifiedDiff('opencode.json', '{\n  "model": "a"\n}\n', '{\n  "model": "b"\n}\n')
+ * // --- opencode.json
+ * // +++ opencode.json
+ * // @@ -1,3 +1,3 @@
+ * //  {
+ * // -  "model": "a"
+ * // +  "model": "b"
+ * //  }
+ * ```
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string,
+  context = 3
+): string {
+  if (before === after) {
+    return ''
+  }
+
+  const script = computeEditScript(splitLines(before ?? ''), splitLines(after))
+  const changed = script
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter((index) => index >= 0)
+
+  if (changed.length === 0) {
+    return ''
+  }
+
+  // Group changes whose context windows overlap into hunks
+  const groups: Array<[number, number]> = []
+  for (const index of changed) {
+    const last = groups[groups.length - 1]
+    if (last && index - last[1] <= context * 2) {
+      last[1] = index
+    } else {
+      groups.push([index, index])
+    }
+  }
+
+  const header = [
+    before === null ? '--- /dev/null' : `--- ${filePath}`,
+    `+++ ${filePath}`,
+  ]
+  const hunks: string[] = []
+
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - context)
+    const end = Math.min(script.length - 1, last + context)
+
+    // Line numbers of the hunk start in the old and new file
+    let oldStart = 0
+    let newStart = 0
+    for (const line of script.slice(0, start)) {
+      if (line.type !== 'add') oldStart++
+      if (line.type !== 'remove') newStart++
+    }
+
+    const body = script.slice(start, end + 1)
+    const oldCount = body.filter((line) => line.type !== 'add').length
+    const newCount = body.filter((line) => line.type !== 'remove').length
+    const prefix = { context: ' ', add: '+', remove: '-' } as const
+
+    hunks.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...body.map((line) => `${prefix[line.type]}${line.text}`)
+    )
+  }
+
+  return [...header, ...hunks].join('\n')
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Error types raised by configuration handling.
+ *
+ * @module config/errors
+ */
+
+import type { ConfigValidationIssue } from './schema.ts'
+
+/**
+ * Raised when both the `.json` and `.jsonc` variant of a configuration
+ * file exist, making it ambiguous which one should be read and written.
+ */
+export class ConfigFileConflictError extends Error {
+  /**
+   * @param paths - The conflicting file paths
+   */
+  constructor(readonly paths: string[]) {
+    super(
+      `Multiple configuration files found: ${paths.join(' and ')}. Remove one of them.`
+    )
+    this.name = 'ConfigFileConflictError'
+  }
+}
+
+/**
+ * Raised when a multi-file write fails part-way through.
+ *
+ * Files written before the failure are restored to their previous
+ * content. Any file that could not be restored is listed in
+ * `restoreFailures`.
+ */
+export class TransactionError extends Error {
+  /**
+   * @param failedPath - The file whose write failed
+   * @param rolledBack - Files that were written and then restored
+   * @param restoreFailures - Files that could not be restored
+   * @param cause - The underlying write error
+   */
+  constructor(
+    readonly failedPath: string,
+    readonly rolledBack: string[],
+    readonly restoreFailures: string[],
+    cause: unknown
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(`Failed to write ${failedPath}: ${reason}`, { cause })
+    this.name = 'TransactionError'
+  }
+}
+
+/**
+ * Raised when the configuration lock cannot be acquired in time because
+ * another OpenCode instance holds it.
+ */
+export class ConfigLockTimeoutError extends Error {
+  /**
+   * @param lockPath - Path of the lock file
+   * @param ownerPid - Process ID of the lock owner, if known
+   */
+  constructor(
+    readonly lockPath: string,
+    readonly ownerPid: number | null
+  ) {
+    const owner = ownerPid === null ? '' : ` (held by process ${ownerPid})`
+    super(
+      `Timed out waiting for configuration lock ${lockPath}${owner}. Remove the file if no other opencode instance is running.`
+    )
+    this.name = 'ConfigLockTimeoutError'
+  }
+}
+
+/**
+ * Raised when a configuration file was modified by someone else between
+ * being loaded and being saved, and the plugin's changes cannot be
+ * re-applied to it (e.g. because it was deleted or can no longer be
+ * parsed). Nothing is written in that case.
+ */
+export class ConfigFileChangedError extends Error {
+  /**
+   * @param path - The modified file
+   * @param message - Error message (default: generic description)
+   */
+  constructor(
+    readonly path: string,
+    message = `${path} was modified by another process since it was loaded. Nothing was written; please retry.`
+  ) {
+    super(message)
+    this.name = 'ConfigFileChangedError'
+  }
+}
+
+/**
+ * Raised when a configuration file was modified by someone else between
+ * being loaded and being saved, and those edits touch the same values as
+ * the plugin's changes. Nothing is written in that case.
+ */
+export class ConfigMergeConflictError extends ConfigFileChangedError {
+  /**
+   * @param path - The modified file
+   * @param conflicts - Dotted JSON paths changed by both sides
+   */
+  constructor(
+    path: string,
+    readonly conflicts: string[]
+  ) {
+    super(
+      path,
+      `${path} was edited by another process and the edits conflict at: ${conflicts.join(', ')}. Nothing was written; resolve the conflict and retry.`
+    )
+    this.name = 'ConfigMergeConflictError'
+  }
+}
+
+/**
+ * Raised when the plugin configuration does not match its JSON Schema.
+ */
+export class ConfigValidationError extends Error {
+  /**
+   * @param path - The invalid configuration file
+   * @param issues - Every validation error found
+   */
+  constructor(
+    readonly path: string,
+    readonly issues: ConfigValidationIssue[]
+  ) {
+    const details = issues.map(
+      (issue) => `  - ${issue.path || '(root)'}: ${issue.message}`
+    )
+    super([`Invalid configuration in ${path}:`, ...details].join('\n'))
+    this.name = 'ConfigValidationError'
+  }
+}
+
+/**
+ * Location and description of a JSONC syntax error.
+ */
+export interface ConfigParseIssue {
+  /** One-based line number */
+  line: number
+  /** One-based column number */
+  column: number
+  /** Name of the error (e.g., "CommaExpected") */
+  message: string
+}
+
+/**
+ * Raised when a configuration file exists but is not valid JSONC.
+ *
+ * The file is never overwritten in that case, so that the user can fix it.
+ */
+export class ConfigParseError extends Error {
+  /**
+   * @param path - The unparseable file
+   * @param issues - Every syntax error found
+   * @param snippet - Source excerpt marking the first error
+   */
+  constructor(
+    readonly path: string,
+    readonly issues: ConfigParseIssue[],
+    readonly snippet: string
+  ) {
+    const details = issues.map(
+      (issue) =>
+        `  - line ${issue.line}, column ${issue.column}: ${issue.message}`
+    )
+    super(
+      [
+        `Failed to parse ${path}:`,
+        ...details,
+        '',
+        snippet,
+        '',
+        'Fix the file and retry; it will not be overwritten until then.',
+      ].join('\n')
+    )
+    this.name = 'ConfigParseError'
+  }
+}
+
+/**
+ * Raised when the `extends` chain of a preset cannot be resolved.
+ */
+export class PresetInheritanceError extends Error {
+  /**
+   * @param preset - The preset being resolved
+   * @param chain - Preset names followed, ending with the offending one
+   * @param reason - `circular` if the chain loops, `unknown` if a parent is missing
+   */
+  constructor(
+    readonly preset: string,
+    readonly chain: string[],
+    readonly reason: 'circular' | 'unknown'
+  ) {
+    const path = chain.join(' -> ')
+    super(
+      reason === 'circular'
+        ? `Preset "${preset}" has a circular "extends" chain: ${path}`
+        : `Preset "${preset}" extends unknown preset "${chain[chain.length - 1]}" (${path})`
+    )
+    this.name = 'PresetInheritanceError'
+  }
+}
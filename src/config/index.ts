@@ -1,5 +1,17 @@
 export * from './types.ts'
 export * from './guards.ts'
+export * from './errors.ts'
+export * from './schema.ts'
+export * from './paths.ts'
+export * from './transaction.ts'
+export * from './state.ts'
+export * from './timezone.ts'
+export * from './lock.ts'
 export * from './loader.ts'
+export * from './diff.ts'
+export * from './merge.ts'
+export * from './layers.ts'
+export * from './presets.ts'
+export * from './backup.ts'
 export * from './initializer.ts'
 export * from './command-installer.ts'
@@ -1,7 +1,11 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
 import { mkdirSync, rmSync } from 'node:fs'
 import { join } from 'node:path'
-import { validateConfig } from './initializer.ts'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { ConfigParseError, ConfigValidationError } from './errors.ts'
+import { initializeConfig, validateConfig } from './initializer.ts'
+import { clearContentCache } from './loader.ts'
+import { PLUGIN_CONFIG_SCHEMA_URL } from './schema.ts'
 import type { ModePreset, ModeSwitcherConfig } from './types.ts'
 
 describe('initializer', () => {
@@ -235,5 +239,91 @@ describe('initializer', () => {
       expect(loadedConfig.showToastOnStartup).toBe(false)
       expect(validateConfig(loadedConfig)).toBe(true)
     })
+
+    describe('initializeConfig', () => {
+      const tempDir = useTempConfigDir('initializer')
+      const configPath = join(tempDir, 'agent-mode-switcher.json')
+
+      test('creates a config referencing the JSON Schema', async () => {
+        const config = await initializeConfig()
+
+        expect(config.$schema).toBe(PLUGIN_CONFIG_SCHEMA_URL)
+        expect(await Bun.file(configPath).exists()).toBe(true)
+      })
+
+      test('loads the presets it captured on the next startup', async () => {
+        await Bun.write(
+          join(tempDir, 'opencode.json'),
+          JSON.stringify({
+            $schema: 'https://opencode.ai/config.json',
+            model: 'anthropic/claude-sonnet-4',
+            agent: { build: { model: 'anthropic/claude-sonnet-4' } },
+          })
+        )
+        await Bun.write(
+          join(tempDir, 'oh-my-opencode.json'),
+          JSON.stringify({
+            $schema:
+              'https://raw.githubusercontent.com/code-yeongyu/oh-my-opencode/master/assets/oh-my-opencode.schema.json',
+            google_auth: false,
+            disabled_hooks: ['comment-checker'],
+            agents: { oracle: { model: 'openai/gpt-5' } },
+          })
+        )
+
+        const first = await initializeConfig()
+        clearContentCache()
+        const second = await initializeConfig()
+
+        expect(second).toEqual(first)
+        expect(second.presets.performance?.['oh-my-opencode']).toMatchObject({
+          google_auth: false,
+          agents: { oracle: { model: 'openai/gpt-5' } },
+        })
+      })
+
+      test('rejects an invalid config with every error', async () => {
+        await Bun.write(
+          configPath,
+          JSON.stringify({ currentMode: 'fast', presets: {} })
+        )
+
+        const error = await initializeConfig().catch((e: unknown) => e)
+
+        expect(error).toBeInstanceOf(ConfigValidationError)
+        expect((error as ConfigValidationError).issues).toEqual([
+          { path: 'showToastOnStartup', message: 'is required' },
+          { path: 'presets', message: 'must have at least 1 entry' },
+        ])
+      })
+
+      test('leaves references to presets to the merged configuration', async () => {
+        const config = {
+          currentMode: 'review',
+          showToastOnStartup: false,
+          presets: {
+            economy: { description: 'Economy', opencode: {} },
+          },
+        }
+        await Bun.write(configPath, JSON.stringify(config))
+
+        expect(await initializeConfig()).toEqual(config)
+      })
+
+      test('does not overwrite a config that fails to parse', async () => {
+        const broken = '{\n  "currentMode": "economy"\n  "presets": {}\n}'
+        await Bun.write(configPath, broken)
+
+        const error = await initializeConfig().catch((e: unknown) => e)
+
+        expect(error).toBeInstanceOf(ConfigParseError)
+        expect((error as ConfigParseError).issues[0]).toEqual({
+          line: 3,
+          column: 3,
+          message: 'CommaExpected',
+        })
+        expect(await Bun.file(configPath).text()).toBe(broken)
+      })
+    })
   })
 })
@@ -1,3 +1,4 @@
+import { ConfigValidationError } from './errors.ts'
 import { isObject } from './guards.ts'
 import {
   loadOhMyOpencodeConfig,
@@ -6,6 +7,13 @@ import {
   pluginConfigExists,
   savePluginConfig,
 } from './loader.ts'
+import { withConfigLock } from './lock.ts'
+import { getPluginConfigPath } from './paths.ts'
+import {
+  PLUGIN_CONFIG_SCHEMA_URL,
+  validatePluginConfig,
+  validatePluginConfigStructure,
+} from './schema.ts'
 import type {
   HierarchicalPreset,
   ModePreset,
@@ -54,20 +62,24 @@ function applyEconomyModel(
 }
 
 /**
- * Builds a performance preset from existing OpenCode configurations.
+ * Builds a preset that mirrors the current OpenCode configurations.
  *
  * This function reads the current `opencode.json` and `oh-my-opencode.json`
  * files and preserves their entire structure as-is. The hierarchical
  * structure (agent, agents, categories, etc.) is maintained exactly.
  *
- * @returns Promise resolving to a ModePreset with performance-oriented models
+ * @param description - Description of the new preset
+ * @returns Promise resolving to a ModePreset capturing the live configuration
+ * @throws {ConfigParseError} If a configuration file is not valid JSONC
  * @example
  * ```typescript
- * const preset = await buildPerformancePreset();
+ * const preset = await buildPresetFromCurrentConfig('Snapshot of today');
  * console.log(preset.opencode); // Full hierarchical structure
  * ```
  */
-async function buildPerformancePreset(): Promise<ModePreset> {
+export async function buildPresetFromCurrentConfig(
+  description: string
+): Promise<ModePreset> {
   const opencodeConfig = await loadOpencodeConfig()
   const ohMyOpencodeConfig = await loadOhMyOpencodeConfig()
 
@@ -83,13 +95,33 @@ async function buildPerformancePreset(): Promise<ModePreset> {
   const globalModel = opencodeConfig?.model
 
   return {
-    description: 'High-performance models for complex tasks',
+    description,
     ...(globalModel && { model: globalModel }),
     opencode: opencodePreset,
     'oh-my-opencode': ohMyOpencodePreset,
   }
 }
 
+/**
+ * Builds a performance preset from existing OpenCode configurations.
+ *
+ * The current models are assumed to be the high-performance ones, so the
+ * live configuration is captured as-is (see
+ * {@link buildPresetFromCurrentConfig}).
+ *
+ * @returns Promise resolving to a ModePreset with performance-oriented models
+ * @example
+ * ```typescript
+ * const preset = await buildPerformancePreset();
+ * console.log(preset.opencode); // Full hierarchical structure
+ * ```
+ */
+async function buildPerformancePreset(): Promise<ModePreset> {
+  return buildPresetFromCurrentConfig(
+    'High-performance models for complex tasks'
+  )
+}
+
 /**
  * Builds an economy preset using the default free model.
  *
@@ -134,7 +166,8 @@ async function buildEconomyPreset(): Promise<ModePreset> {
  *
  * This function performs the following steps:
  * 1. Checks if a configuration file already exists
- * 2. If exists, loads and returns it
+ * 2. If exists, loads it, validates it against the JSON Schema and
+ *    returns it
  * 3. If not, creates a new configuration by:
  *    - Building a performance preset from current settings
  *    - Building an economy preset with free models
@@ -142,9 +175,11 @@ async function buildEconomyPreset(): Promise<ModePreset> {
  *    - Saving the configuration to disk
  *
  * This is called on plugin startup to ensure a valid configuration
- * is always available.
+ * is always available. It runs while holding the configuration lock, so
+ * concurrently starting instances don't race to create the file.
  *
  * @returns Promise resolving to the configuration (existing or newly created)
+ * @throws {ConfigValidationError} If the existing configuration does not match the JSON Schema
  * @throws {Error} If configuration creation or file I/O fails
  * @example
  * ```typescript
@@ -153,42 +188,55 @@ async function buildEconomyPreset(): Promise<ModePreset> {
  * ```
  */
 export async function initializeConfig(): Promise<ModeSwitcherConfig> {
-  const exists = await pluginConfigExists()
-  if (exists) {
-    // Config already exists, load it
-    const config = await loadPluginConfig()
-    if (config) {
-      return config
+  // Lock so that concurrently starting instances create the file only once
+  return withConfigLock(async () => {
+    const exists = await pluginConfigExists()
+    if (exists) {
+      // Config already exists, load it
+      const config = await loadPluginConfig()
+      if (config) {
+        // References to presets are checked once the project layer is
+        // merged, as it may define the presets they refer to
+        const issues = validatePluginConfigStructure(config)
+        if (issues.length > 0) {
+          throw new ConfigValidationError(getPluginConfigPath(), issues)
+        }
+        return config
+      }
     }
-  }
 
-  // Build initial configuration from existing settings
-  const performancePreset = await buildPerformancePreset()
-  const economyPreset = await buildEconomyPreset()
-
-  const config: ModeSwitcherConfig = {
-    currentMode: 'performance',
-    showToastOnStartup: true,
-    presets: {
-      performance: performancePreset,
-      economy: economyPreset,
-    },
-  }
+    // Build initial configuration from existing settings
+    const performancePreset = await buildPerformancePreset()
+    const economyPreset = await buildEconomyPreset()
+
+    const config: ModeSwitcherConfig = {
+      $schema: PLUGIN_CONFIG_SCHEMA_URL,
+      currentMode: 'performance',
+      showToastOnStartup: true,
+      presets: {
+        performance: performancePreset,
+        economy: economyPreset,
+      },
+    }
 
-  // Save the initial configuration
-  await savePluginConfig(config)
+    // Save the initial configuration
+    await savePluginConfig(config)
 
-  return config
+    return config
+  })
 }
 
 /**
  * Validates that a configuration object is well-formed and has required presets.
  *
- * This function performs the following checks:
+ * The configuration is checked against the JSON Schema (see
+ * {@link validatePluginConfig}), which among others requires:
  * - `currentMode` field is present and non-empty
  * - `presets` object exists and contains at least one preset
  * - A preset exists for the current mode
  *
+ * Use {@link validatePluginConfig} to get the individual errors.
+ *
  * @param config - The configuration object to validate
  * @returns True if configuration is valid, false otherwise
  * @example
@@ -202,11 +250,5 @@ export async function initializeConfig(): Promise<ModeSwitcherConfig> {
  * ```
  */
 export function validateConfig(config: ModeSwitcherConfig): boolean {
-  if (!config.currentMode) {
-    return false
-  }
-  if (!config.presets || Object.keys(config.presets).length === 0) {
-    return false
-  }
-  return Boolean(config.presets[config.currentMode])
+  return validatePluginConfig(config).length === 0
 }
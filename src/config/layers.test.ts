@@ -0,0 +1,164 @@
+import { describe, expect, test } from 'bun:test'
+import { deepMerge, getValueSource, mergeConfigLayers } from './layers.ts'
+import type { ModeSwitcherConfig } from './types.ts'
+
+describe('layers', () => {
+  const createGlobalConfig = (): ModeSwitcherConfig => ({
+    currentMode: 'performance',
+    showToastOnStartup: true,
+    presets: {
+      performance: {
+        description: 'High-performance models',
+        model: 'anthropic/claude-sonnet-4',
+        opencode: {
+          build: { model: 'anthropic/claude-sonnet-4', variant: 'high' },
+        },
+        'oh-my-opencode': {},
+      },
+      economy: {
+        description: 'Economy models',
+        opencode: { build: { model: 'opencode/glm-4.7-free' } },
+        'oh-my-opencode': {},
+      },
+    },
+  })
+
+  describe('deepMerge', () => {
+    test('merges nested objects recursively', () => {
+      const result = deepMerge({ a: { b: 1, c: 2 } }, { a: { c: 3 } })
+      expect(result).toEqual({ a: { b: 1, c: 3 } })
+    })
+
+    test('replaces arrays instead of merging them', () => {
+      const result = deepMerge({ list: [1, 2, 3] }, { list: [4] })
+      expect(result).toEqual({ list: [4] })
+    })
+
+    test('does not modify the input objects', () => {
+      const base = { a: { b: 1 } }
+      const override = { a: { c: 2 } }
+      deepMerge(base, override)
+      expect(base).toEqual({ a: { b: 1 } })
+      expect(override).toEqual({ a: { c: 2 } })
+    })
+  })
+
+  describe('mergeConfigLayers', () => {
+    test('returns a copy of the global config without project layer', () => {
+      const global = createGlobalConfig()
+      const { config } = mergeConfigLayers({
+        global,
+        project: null,
+        projectPath: null,
+      })
+
+      expect(config).toEqual(global)
+      expect(config).not.toBe(global)
+      expect(config.presets).not.toBe(global.presets)
+    })
+
+    test('project values override global values', () => {
+      const { config } = mergeConfigLayers({
+        global: createGlobalConfig(),
+        project: {
+          currentMode: 'economy',
+          presets: {
+            performance: {
+              opencode: { build: { model: 'anthropic/claude-opus-4' } },
+            },
+          },
+        },
+        projectPath: '/repo/.opencode/agent-mode-switcher.json',
+      })
+
+      expect(config.currentMode).toBe('economy')
+      expect(config.presets.performance?.opencode.build).toEqual({
+        model: 'anthropic/claude-opus-4',
+        variant: 'high',
+      })
+      expect(config.presets.performance?.description).toBe(
+        'High-performance models'
+      )
+    })
+
+    test('project can add new presets', () => {
+      const { config } = mergeConfigLayers({
+        global: createGlobalConfig(),
+        project: {
+          presets: {
+            review: {
+              description: 'Review preset',
+              opencode: {},
+              'oh-my-opencode': {},
+            },
+          },
+        },
+        projectPath: '/repo/.opencode/agent-mode-switcher.json',
+      })
+
+      expect(Object.keys(config.presets)).toEqual([
+        'performance',
+        'economy',
+        'review',
+      ])
+    })
+
+    test('records the source layer of each value', () => {
+      const { sources } = mergeConfigLayers({
+        global: createGlobalConfig(),
+        project: {
+          currentMode: 'economy',
+          presets: {
+            performance: {
+              opencode: { build: { model: 'anthropic/claude-opus-4' } },
+            },
+          },
+        },
+        projectPath: '/repo/.opencode/agent-mode-switcher.json',
+      })
+
+      expect(sources.get('currentMode')).toBe('project')
+      expect(sources.get('showToastOnStartup')).toBe('global')
+      expect(sources.get('presets.performance.opencode.build.model')).toBe(
+        'project'
+      )
+      expect(sources.get('presets.performance.opencode.build.variant')).toBe(
+        'global'
+      )
+    })
+  })
+
+  describe('getValueSource', () => {
+    const { sources } = mergeConfigLayers({
+      global: createGlobalConfig(),
+      project: {
+        presets: {
+          performance: {
+            opencode: { build: { model: 'anthropic/claude-opus-4' } },
+          },
+        },
+      },
+      projectPath: '/repo/.opencode/agent-mode-switcher.json',
+    })
+
+    test('returns the source of a leaf value', () => {
+      expect(getValueSource(sources, ['currentMode'])).toBe('global')
+    })
+
+    test('reports project when any nested value comes from the project', () => {
+      expect(
+        getValueSource(sources, ['presets', 'performance', 'opencode', 'build'])
+      ).toBe('project')
+    })
+
+    test('reports global for objects defined only globally', () => {
+      expect(
+        getValueSource(sources, ['presets', 'economy', 'opencode', 'build'])
+      ).toBe('global')
+    })
+
+    test('returns undefined for unknown paths', () => {
+      expect(getValueSource(sources, ['presets', 'missing'])).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Layering of project-local plugin configuration.
+ *
+ * A project can provide `.opencode/agent-mode-switcher.json`, whose values
+ * are deep-merged over the global plugin configuration. This module merges
+ * the layers and records which layer each value came from, so that status
+ * output can report the origin of every setting.
+ *
+ * @module config/layers
+ */
+
+import { isObject } from './guards.ts'
+import type { ModePreset, ModeSwitcherConfig } from './types.ts'
+
+/**
+ * Configuration layer a value originates from.
+ */
+export type ConfigLayer = 'global' | 'project'
+
+/**
+ * Project-local plugin configuration.
+ *
+ * Every field is optional: only the values that differ from the global
+ * configuration need to be specified.
+ */
+export type ProjectModeSwitcherConfig = Partial<
+  Omit<ModeSwitcherConfig, 'presets'>
+> & {
+  presets?: Record<string, Partial<ModePreset>>
+}
+
+/**
+ * The raw configuration layers as loaded from disk.
+ */
+export interface ConfigLayers {
+  global: ModeSwitcherConfig
+  project: ProjectModeSwitcherConfig | null
+  projectPath: string | null
+}
+
+/**
+ * Result of merging configuration layers.
+ */
+export interface MergedConfig {
+  /** The effective configuration */
+  config: ModeSwitcherConfig
+  /** Origin layer of every leaf value, keyed by dotted JSON path */
+  sources: Map<string, ConfigLayer>
+}
+
+/**
+ * Deep-merges two plain objects without modifying either of them.
+ *
+ * Nested objects are merged recursively. Arrays and primitive values
+ * in `override` replace those in `base`.
+ *
+ * @param base - The base object
+ * @param override - The object whose values take precedence
+ * @returns A new merged object
+ * @example
+ * ```typescript
+ * deepMerge({ a: { b: 1, c: 2 } }, { a: { c: 3 } })
+ * // Returns: { a: { b: 1, c: 3 } }
+ * ```
+ */
+export function deepMerge<T extends object>(base: T, override: object): T {
+  const result = { ...base } as Record<string, unknown>
+
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = result[key]
+    if (isObject(value) && isObject(baseValue)) {
+      result[key] = deepMerge(baseValue, value)
+    } else if (isObject(value)) {
+      result[key] = deepMerge({}, value)
+    } else {
+      result[key] = value
+    }
+  }
+
+  return result as T
+}
+
+/**
+ * Records the given layer as the source of every leaf value in `value`.
+ *
+ * @param sources - Map to record sources into
+ * @param value - The value to traverse
+ * @param layer - The layer the value belongs to
+ * @param path - JSON path of `value`
+ * @private
+ */
+function recordSources(
+  sources: Map<string, ConfigLayer>,
+  value: unknown,
+  layer: ConfigLayer,
+  path: string[]
+): void {
+  if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      recordSources(sources, child, layer, [...path, key])
+    }
+    return
+  }
+  sources.set(path.join('.'), layer)
+}
+
+/**
+ * Merges the project layer over the global layer.
+ *
+ * @param layers - The configuration layers to merge
+ * @returns The effective configuration with the source of each value
+ * @example
+ * ```typescript
+ * const { config, sources } = mergeConfigLayers({
+ *   global,
+ *   project: { currentMode: 'economy' },
+ *   projectPath: '/repo/.opencode/agent-mode-switcher.json',
+ * })
+ * sources.get('currentMode') // 'project'
+ * ```
+ */
+export function mergeConfigLayers(layers: ConfigLayers): MergedConfig {
+  const sources = new Map<string, ConfigLayer>()
+  recordSources(sources, layers.global, 'global', [])
+
+  // Clone so that the merged config never shares objects with a layer
+  const global = structuredClone(layers.global)
+  if (!layers.project) {
+    return { config: global, sources }
+  }
+
+  recordSources(sources, layers.project, 'project', [])
+  return {
+    config: deepMerge(global, structuredClone(layers.project)),
+    sources,
+  }
+}
+
+/**
+ * Gets the layer a configuration value came from.
+ *
+ * For object values, the project layer is reported if any nested
+ * value came from the project, otherwise the global layer.
+ *
+ * @param sources - Sources returned by {@link mergeConfigLayers}
+ * @param path - JSON path of the value
+ * @returns The source layer, or undefined if the path is unknown
+ * @example
+ * ```typescript
+ * getValueSource(sources, ['presets', 'economy', 'opencode', 'build'])
+ * // Returns: 'project' if any property of the build agent is set by the project
+ * ```
+ */
+export function getValueSource(
+  sources: Map<string, ConfigLayer>,
+  path: string[]
+): ConfigLayer | undefined {
+  const key = path.join('.')
+  const exact = sources.get(key)
+  if (exact) {
+    return exact
+  }
+
+  let found: ConfigLayer | undefined
+  const prefix = `${key}.`
+  for (const [sourceKey, layer] of sources) {
+    if (!sourceKey.startsWith(prefix)) continue
+    if (layer === 'project') {
+      return layer
+    }
+    found = layer
+  }
+  return found
+}
@@ -1,15 +1,21 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
 import { mkdirSync, rmSync } from 'node:fs'
-import { homedir } from 'node:os'
 import { join } from 'node:path'
 import { parse as parseJsonc } from 'jsonc-parser'
 import { type ModificationOptions, applyEdits, modify } from 'jsonc-parser'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import {
+  ConfigFileChangedError,
+  ConfigMergeConflictError,
+  ConfigParseError,
+} from './errors.ts'
 import {
   clearContentCache,
-  expandPath,
-  getOhMyOpencodeConfigPath,
-  getOpencodeConfigPath,
-  getPluginConfigPath,
+  findProjectPluginConfigPath,
+  loadOpencodeConfig,
+  loadProjectPluginConfig,
+  saveOpencodeConfig,
+  saveProjectPluginConfig,
   setContentCache,
 } from './loader.ts'
 import type {
@@ -19,61 +25,6 @@ import type {
 } from './types.ts'
 
 describe('loader', () => {
-  describe('expandPath', () => {
-    test('expands ~ to home directory', () => {
-      const result = expandPath('~/test/path')
-      expect(result).toBe(join(homedir(), 'test/path'))
-    })
-
-    test('keeps absolute path unchanged', () => {
-      const absolutePath = '/absolute/path/to/file'
-      const result = expandPath(absolutePath)
-      expect(result).toBe(absolutePath)
-    })
-
-    test('keeps relative path unchanged', () => {
-      const relativePath = 'relative/path/to/file'
-      const result = expandPath(relativePath)
-      expect(result).toBe(relativePath)
-    })
-
-    test('handles empty string', () => {
-      const result = expandPath('')
-      expect(result).toBe('')
-    })
-
-    test('handles path with only ~', () => {
-      const result = expandPath('~')
-      expect(result).toBe('~')
-    })
-
-    test('expands ~/', () => {
-      const result = expandPath('~/')
-      expect(result).toBe(join(homedir(), ''))
-    })
-  })
-
-  describe('config path functions', () => {
-    test('getPluginConfigPath returns correct path', () => {
-      const result = getPluginConfigPath()
-      expect(result).toBe(
-        join(homedir(), '.config/opencode/agent-mode-switcher.json')
-      )
-    })
-
-    test('getOpencodeConfigPath returns correct path', () => {
-      const result = getOpencodeConfigPath()
-      expect(result).toBe(join(homedir(), '.config/opencode/opencode.json'))
-    })
-
-    test('getOhMyOpencodeConfigPath returns correct path', () => {
-      const result = getOhMyOpencodeConfigPath()
-      expect(result).toBe(
-        join(homedir(), '.config/opencode/oh-my-opencode.json')
-      )
-    })
-  })
-
   describe('file operations', () => {
     const testDir = '/tmp/opencode-agent-modes-test'
     const testPluginConfigPath = join(testDir, 'agent-mode-switcher.json')
@@ -203,6 +154,221 @@ describe('loader', () => {
       })
     })
 
+    describe('findProjectPluginConfigPath', () => {
+      test('finds config in the start directory', async () => {
+        const configPath = join(
+          testDir,
+          '.opencode',
+          'agent-mode-switcher.json'
+        )
+        await Bun.write(configPath, '{}')
+
+        expect(findProjectPluginConfigPath(testDir)).toBe(configPath)
+      })
+
+      test('walks up to parent directories', async () => {
+        const configPath = join(
+          testDir,
+          '.opencode',
+          'agent-mode-switcher.json'
+        )
+        await Bun.write(configPath, '{}')
+        const nestedDir = join(testDir, 'packages', 'app')
+        mkdirSync(nestedDir, { recursive: true })
+
+        expect(findProjectPluginConfigPath(nestedDir)).toBe(configPath)
+      })
+
+      test('returns null when no project config exists', () => {
+        const nestedDir = join(testDir, 'packages', 'app')
+        mkdirSync(nestedDir, { recursive: true })
+
+        expect(findProjectPluginConfigPath(nestedDir)).toBe(null)
+      })
+    })
+
+    describe('parse errors', () => {
+      test('returns null for a missing file', async () => {
+        expect(await loadProjectPluginConfig(testPluginConfigPath)).toBeNull()
+      })
+
+      test('accepts comments and trailing commas', async () => {
+        await Bun.write(
+          testPluginConfigPath,
+          '{\n  // Comment\n  "currentMode": "economy",\n}'
+        )
+
+        expect(await loadProjectPluginConfig(testPluginConfigPath)).toEqual({
+          currentMode: 'economy',
+        })
+      })
+
+      test('reports the line, column and a snippet', async () => {
+        await Bun.write(
+          testPluginConfigPath,
+          '{\n  "currentMode": "economy"\n  "showToastOnStartup": true\n}'
+        )
+
+        const error = await loadProjectPluginConfig(testPluginConfigPath).catch(
+          (e: unknown) => e
+        )
+
+        expect(error).toBeInstanceOf(ConfigParseError)
+        const parseError = error as ConfigParseError
+        expect(parseError.path).toBe(testPluginConfigPath)
+        expect(parseError.issues).toEqual([
+          { line: 3, column: 3, message: 'CommaExpected' },
+        ])
+        expect(parseError.snippet).toBe(
+          [
+            '1 | {',
+            '2 |   "currentMode": "economy"',
+            '3 |   "showToastOnStartup": true',
+            '  |   ^',
+          ].join('\n')
+        )
+        expect(parseError.message).toContain('line 3, column 3: CommaExpected')
+      })
+    })
+
+    describe('change detection', () => {
+      test('saves when the file is unchanged since loading', async () => {
+        await Bun.write(testPluginConfigPath, '{ "currentMode": "economy" }')
+        await loadProjectPluginConfig(testPluginConfigPath)
+
+        await saveProjectPluginConfig(testPluginConfigPath, {
+          currentMode: 'performance',
+        })
+
+        const saved = await Bun.file(testPluginConfigPath).text()
+        expect(saved).toBe('{ "currentMode": "performance" }')
+      })
+
+      test('keeps external edits to other values', async () => {
+        await Bun.write(
+          testPluginConfigPath,
+          '{\n  "currentMode": "economy",\n  "showToastOnStartup": true\n}'
+        )
+        await loadProjectPluginConfig(testPluginConfigPath)
+        await Bun.write(
+          testPluginConfigPath,
+          '{\n  // Edited by hand\n  "currentMode": "economy",\n  "showToastOnStartup": false\n}'
+        )
+
+        await saveProjectPluginConfig(testPluginConfigPath, {
+          currentMode: 'performance',
+          showToastOnStartup: true,
+        })
+
+        const saved = await Bun.file(testPluginConfigPath).text()
+        expect(saved).toContain('// Edited by hand')
+        expect(parseJsonc(saved)).toEqual({
+          currentMode: 'performance',
+          showToastOnStartup: false,
+        })
+      })
+
+      test('reports conflicting edits by JSON path', async () => {
+        await Bun.write(
+          testPluginConfigPath,
+          '{ "currentMode": "economy", "presets": { "a": { "model": "x" } } }'
+        )
+        await loadProjectPluginConfig(testPluginConfigPath)
+        await Bun.write(
+          testPluginConfigPath,
+          '{ "currentMode": "custom", "presets": { "a": { "model": "y" } } }'
+        )
+
+        const error = await saveProjectPluginConfig(testPluginConfigPath, {
+          currentMode: 'performance',
+          presets: { a: { model: 'z' } },
+        }).catch((e: unknown) => e)
+
+        expect(error).toBeInstanceOf(ConfigMergeConflictError)
+        expect((error as ConfigMergeConflictError).conflicts).toEqual([
+          'currentMode',
+          'presets.a.model',
+        ])
+        const content = await Bun.file(testPluginConfigPath).text()
+        expect(content).toContain('"custom"')
+      })
+
+      test('refuses to save a file deleted since loading', async () => {
+        await Bun.write(testPluginConfigPath, '{ "currentMode": "economy" }')
+        await loadProjectPluginConfig(testPluginConfigPath)
+        rmSync(testPluginConfigPath)
+
+        await expect(
+          saveProjectPluginConfig(testPluginConfigPath, {
+            currentMode: 'performance',
+          })
+        ).rejects.toBeInstanceOf(ConfigFileChangedError)
+      })
+
+      test('refuses to overwrite a file created since loading', async () => {
+        await loadProjectPluginConfig(testPluginConfigPath)
+        await Bun.write(testPluginConfigPath, '{ "currentMode": "custom" }')
+
+        await expect(
+          saveProjectPluginConfig(testPluginConfigPath, {
+            currentMode: 'performance',
+          })
+        ).rejects.toBeInstanceOf(ConfigFileChangedError)
+      })
+    })
+
+    describe('removed properties', () => {
+      test('removes properties missing from the saved data', async () => {
+        await Bun.write(
+          testPluginConfigPath,
+          [
+            '{',
+            '  // Presets',
+            '  "presets": {',
+            '    "a": { "model": "x" },',
+            '    "b": { "model": "y" }',
+            '  }',
+            '}',
+          ].join('\n')
+        )
+        await loadProjectPluginConfig(testPluginConfigPath)
+
+        await saveProjectPluginConfig(testPluginConfigPath, {
+          presets: { a: { model: 'x' } },
+        })
+
+        const saved = await Bun.file(testPluginConfigPath).text()
+        expect(saved).toContain('// Presets')
+        expect(parseJsonc(saved)).toEqual({ presets: { a: { model: 'x' } } })
+      })
+
+      describe('in the opencode config', () => {
+        const configDir = useTempConfigDir('loader-removed')
+
+        test('keeps properties missing from the saved data', async () => {
+          const opencodePath = join(configDir, 'opencode.json')
+          await Bun.write(
+            opencodePath,
+            JSON.stringify({
+              model: 'x',
+              agent: { build: { model: 'x' }, review: { model: 'y' } },
+            })
+          )
+          await loadOpencodeConfig()
+
+          await saveOpencodeConfig({
+            model: 'z',
+            agent: { build: { model: 'z' } },
+          })
+
+          expect(parseJsonc(await Bun.file(opencodePath).text())).toEqual({
+            model: 'z',
+            agent: { build: { model: 'z' }, review: { model: 'y' } },
+          })
+        })
+      })
+    })
+
     describe('pluginConfigExists', () => {
       test('returns true when config file exists', async () => {
         await Bun.write(testPluginConfigPath, '{}')
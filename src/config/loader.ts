@@ -1,11 +1,28 @@
-import { homedir } from 'node:os'
-import { join } from 'node:path'
+import { dirname, join, resolve } from 'node:path'
 import {
   type ModificationOptions,
+  type ParseError,
+  type ParseOptions,
   applyEdits,
   modify,
   parse as parseJsonc,
+  printParseErrorCode,
 } from 'jsonc-parser'
+import {
+  ConfigFileChangedError,
+  ConfigMergeConflictError,
+  ConfigParseError,
+} from './errors.ts'
+import { isObject } from './guards.ts'
+import type { ProjectModeSwitcherConfig } from './layers.ts'
+import { diffJson, findConflicts } from './merge.ts'
+import {
+  findConfigFile,
+  getOhMyOpencodeConfigPath,
+  getOpencodeConfigPath,
+  getPluginConfigPath,
+} from './paths.ts'
+import { commitFileWrites, writeFileAtomic } from './transaction.ts'
 import type {
   ModeSwitcherConfig,
   OhMyOpencodeConfig,
@@ -29,48 +46,37 @@ const modifyOptions: ModificationOptions = {
 }
 
 /**
- * Expands tilde (~) notation to the user's home directory path.
+ * Find the project-local plugin configuration file.
+ *
+ * Walks up from the given directory towards the filesystem root and
+ * returns the first `.opencode/agent-mode-switcher.json` (or `.jsonc`)
+ * found.
  *
- * @param path - File path that may contain ~ prefix
- * @returns Expanded absolute path with ~ replaced by home directory
+ * @param startDir - Directory to start searching from (usually the project directory)
+ * @returns Absolute path to the project configuration file, or null if none exists
+ * @throws {ConfigFileConflictError} If both `.json` and `.jsonc` variants exist
  * @example
  * ```typescript
- * expandPath('~/config/settings.json')
- * // Returns: '/Users/username/config/settings.json'
+ * findProjectPluginConfigPath('/repo/packages/app')
+ * // Returns: '/repo/.opencode/agent-mode-switcher.json' if it exists
  * ```
  */
-export function expandPath(path: string): string {
-  if (path.startsWith('~/')) {
-    return join(homedir(), path.slice(2))
+export function findProjectPluginConfigPath(startDir: string): string | null {
+  let current = resolve(startDir)
+  for (;;) {
+    const found = findConfigFile(
+      join(current, '.opencode'),
+      'agent-mode-switcher'
+    )
+    if (found) {
+      return found
+    }
+    const parent = dirname(current)
+    if (parent === current) {
+      return null
+    }
+    current = parent
   }
-  return path
-}
-
-/**
- * Get the absolute path to the plugin configuration file.
- *
- * @returns Absolute path to agent-mode-switcher.json
- */
-export function getPluginConfigPath(): string {
-  return expandPath('~/.config/opencode/agent-mode-switcher.json')
-}
-
-/**
- * Get the absolute path to the opencode configuration file.
- *
- * @returns Absolute path to opencode.json
- */
-export function getOpencodeConfigPath(): string {
-  return expandPath('~/.config/opencode/opencode.json')
-}
-
-/**
- * Get the absolute path to the oh-my-opencode configuration file.
- *
- * @returns Absolute path to oh-my-opencode.json
- */
-export function getOhMyOpencodeConfigPath(): string {
-  return expandPath('~/.config/opencode/oh-my-opencode.json')
 }
 
 /**
@@ -146,12 +152,15 @@ function deepEqual(a: unknown, b: unknown): boolean {
  * This function traverses the new data structure and applies jsonc-parser's
  * modify() only to leaf values (primitives and arrays), keeping the original
  * file structure and comments intact. Unchanged values are skipped to preserve
- * their associated comments.
+ * their associated comments. With `removeMissing`, properties missing from
+ * the new data are removed; otherwise they are kept, so that settings the
+ * plugin does not manage survive.
  *
  * @param content - Original JSONC file content with comments
  * @param basePath - Current JSON path being processed
  * @param newValue - New value to set at the path
  * @param originalData - Parsed original data for comparison
+ * @param removeMissing - Remove properties missing from the new data
  * @returns Updated JSONC content with preserved comments
  * @example
  * ```typescript
@@ -165,7 +174,8 @@ function updateLeafValues(
   content: string,
   basePath: JsonPath,
   newValue: unknown,
-  originalData: unknown
+  originalData: unknown,
+  removeMissing: boolean
 ): string {
   const originalValue = getValueAtPath(originalData, basePath)
 
@@ -195,21 +205,125 @@ function updateLeafValues(
       result,
       [...basePath, key],
       obj[key],
-      originalData
+      originalData,
+      removeMissing
     )
   }
 
+  // Remove properties that no longer exist (e.g., a deleted preset)
+  if (removeMissing && isObject(originalValue)) {
+    for (const key of Object.keys(originalValue)) {
+      if (!(key in obj)) {
+        const edits = modify(
+          result,
+          [...basePath, key],
+          undefined,
+          modifyOptions
+        )
+        result = applyEdits(result, edits)
+      }
+    }
+  }
+
   return result
 }
 
+/**
+ * Options for parsing JSONC, matching what OpenCode itself accepts.
+ */
+const parseOptions: ParseOptions = {
+  allowTrailingComma: true,
+}
+
+/**
+ * Convert an offset into a one-based line and column.
+ *
+ * @param content - The text
+ * @param offset - Zero-based character offset
+ * @returns The line and column of the offset
+ * @private
+ */
+function getLineAndColumn(
+  content: string,
+  offset: number
+): { line: number; column: number } {
+  const before = content.slice(0, offset).split('\n')
+  return {
+    line: before.length,
+    column: (before[before.length - 1]?.length ?? 0) + 1,
+  }
+}
+
+/**
+ * Render the lines around a position with a caret marking the column.
+ *
+ * @param content - The text
+ * @param line - One-based line number
+ * @param column - One-based column number
+ * @returns A snippet such as `3 |   "model": "a"` followed by a caret line
+ * @private
+ */
+function createSnippet(content: string, line: number, column: number): string {
+  const lines = content.split('\n')
+  const first = Math.max(1, line - 2)
+  const width = String(line).length
+  const result: string[] = []
+
+  for (let number = first; number <= line; number++) {
+    const text = lines[number - 1] ?? ''
+    result.push(`${String(number).padStart(width)} | ${text}`)
+  }
+  result.push(`${' '.repeat(width)} | ${' '.repeat(column - 1)}^`)
+  return result.join('\n')
+}
+
+/**
+ * Parse JSONC content, failing on syntax errors.
+ *
+ * jsonc-parser recovers from syntax errors and returns a best-effort
+ * value; using such a value would silently drop settings, so any error
+ * is raised instead.
+ *
+ * @param filePath - Path of the file, used in the error
+ * @param content - JSONC content
+ * @returns The parsed value
+ * @throws {ConfigParseError} If the content is not valid JSONC
+ * @private
+ */
+function parseJsoncContent(filePath: string, content: string): unknown {
+  const errors: ParseError[] = []
+  const data = parseJsonc(content, errors, parseOptions)
+  const [firstError] = errors
+  if (!firstError) {
+    return data
+  }
+
+  const issues = errors.map((error) => ({
+    ...getLineAndColumn(content, error.offset),
+    message: printParseErrorCode(error.error),
+  }))
+  const { line, column } = getLineAndColumn(content, firstError.offset)
+  throw new ConfigParseError(
+    filePath,
+    issues,
+    createSnippet(content, line, column)
+  )
+}
+
 /**
  * Load a JSONC configuration file using Bun.file.
  *
  * Parses JSONC (JSON with comments) and caches the original content
  * for comment preservation during subsequent saves.
  *
+ * A missing file is not an error and yields null. A file that exists but
+ * cannot be parsed raises {@link ConfigParseError} rather than being
+ * treated as missing, so it is never overwritten by a fresh default.
+ *
  * @param filePath - Absolute path to the JSON/JSONC file
- * @returns Parsed configuration object, or null if file doesn't exist or fails to parse
+ * @returns Parsed configuration object, or null if file doesn't exist
+ * @throws {ConfigParseError} If the file is not valid JSONC
+ * @throws {Error} If the file cannot be read
  * @example
  * ```typescript
  * const config = await loadJsonFile<OpencodeConfig>('/path/to/config.json');
@@ -219,69 +333,200 @@ function updateLeafValues(
  * ```
  */
 async function loadJsonFile<T>(filePath: string): Promise<T | null> {
-  try {
-    const file = Bun.file(filePath)
-    const exists = await file.exists()
-    if (!exists) {
-      return null
-    }
-    const content = await file.text()
-
-    // Cache original content for later save
-    originalContentCache.set(filePath, content)
-
-    return parseJsonc(content) as T
-  } catch {
+  const file = Bun.file(filePath)
+  const exists = await file.exists()
+  if (!exists) {
     return null
   }
+  const content = await file.text()
+  const data = parseJsoncContent(filePath, content) as T
+
+  // Cache original content for later save
+  originalContentCache.set(filePath, content)
+
+  return data
 }
 
 /**
- * Save a JSONC configuration file while preserving comments and formatting.
+ * Preview of a pending configuration file write.
+ */
+export interface FilePreview {
+  /** Absolute path of the file */
+  path: string
+  /** Content the save is based on, or null if the file is created */
+  before: string | null
+  /** Content that would be written */
+  after: string
+}
+
+/**
+ * Render the content a save of `data` would write, without writing it.
  *
  * Uses jsonc-parser's modify/applyEdits to intelligently update only changed
- * values, preserving existing comments and structure. If no cached content exists
- * (first save), creates new formatted JSON.
+ * values, preserving existing comments and structure. If no cached content
+ * exists (first save), creates new formatted JSON.
  *
  * @param filePath - Absolute path to the JSON/JSONC file
- * @param data - Configuration object to save
- * @throws {Error} If file write fails
+ * @param data - Configuration object to render
+ * @param removeMissing - Remove properties missing from `data`; only the
+ *   plugin's own configuration files are rendered this way
+ * @returns The original cached content and the rendered content
  * @example
  * ```typescript
- * const config: OpencodeConfig = { agents: [...] };
- * await saveJsonFile('/path/to/config.json', config);
- * // Comments in the original file are preserved
+ * const { before, after } = renderJsonFile('/path/to/config.json', config);
+ * // `after` keeps the comments of `before`
  * ```
  */
-async function saveJsonFile<T>(filePath: string, data: T): Promise<void> {
+function renderJsonFile<T>(
+  filePath: string,
+  data: T,
+  removeMissing = false
+): FilePreview {
   const originalContent = originalContentCache.get(filePath)
 
-  let content: string
   if (originalContent && data !== null && typeof data === 'object') {
     // Parse original content for comparison
     const originalData = parseJsonc(originalContent)
 
     // Update values while preserving comments (skips unchanged values)
-    content = originalContent
-    const obj = data as Record<string, unknown>
-    for (const key of Object.keys(obj)) {
-      content = updateLeafValues(content, [key], obj[key], originalData)
-    }
-    // Update cache with new content
-    originalContentCache.set(filePath, content)
-  } else {
-    // No cached content, create new JSON
-    content = JSON.stringify(data, null, 2)
-    originalContentCache.set(filePath, content)
+    const content = updateLeafValues(
+      originalContent,
+      [],
+      data,
+      originalData,
+      removeMissing
+    )
+    return { path: filePath, before: originalContent, after: content }
   }
 
-  await Bun.write(filePath, content)
+  // No cached content, create new JSON
+  return {
+    path: filePath,
+    before: originalContent ?? null,
+    after: JSON.stringify(data, null, 2),
+  }
+}
+
+/**
+ * Re-base a rendered write on the current content of the file.
+ *
+ * If the file was edited by someone else since it was loaded, the
+ * plugin's changes (the difference between `before` and `after`) are
+ * re-applied on top of the current content with a three-way merge, so
+ * that the external edits are kept.
+ *
+ * @param preview - The rendered write
+ * @returns The preview to write, based on the current file content
+ * @throws {ConfigMergeConflictError} If both sides changed the same values
+ * @throws {ConfigFileChangedError} If the file was deleted
+ * @throws {ConfigParseError} If the file can no longer be parsed
+ * @private
+ */
+async function rebasePreview(preview: FilePreview): Promise<FilePreview> {
+  const file = Bun.file(preview.path)
+  const current = (await file.exists()) ? await file.text() : null
+  if (current === preview.before) {
+    return preview
+  }
+  if (current === null) {
+    throw new ConfigFileChangedError(
+      preview.path,
+      `${preview.path} was deleted by another process since it was loaded. Nothing was written; please retry.`
+    )
+  }
+
+  const theirsData = parseJsoncContent(preview.path, current)
+
+  const baseData = preview.before === null ? {} : parseJsonc(preview.before)
+  const ours = diffJson(baseData, parseJsonc(preview.after))
+  const theirs = diffJson(baseData, theirsData)
+  const conflicts = findConflicts(ours, theirs)
+  if (conflicts.length > 0) {
+    throw new ConfigMergeConflictError(preview.path, conflicts)
+  }
+
+  let after = current
+  for (const change of ours) {
+    after = applyEdits(
+      after,
+      modify(after, change.path, change.value, modifyOptions)
+    )
+  }
+  return { path: preview.path, before: current, after }
+}
+
+/**
+ * Save a JSONC configuration file while preserving comments and formatting.
+ *
+ * The content is rendered by {@link renderJsonFile}, so only changed values
+ * are updated and existing comments and structure are preserved. Edits made
+ * to the file since it was loaded are kept (see {@link rebasePreview}). The
+ * file is replaced atomically.
+ *
+ * @param filePath - Absolute path to the JSON/JSONC file
+ * @param data - Configuration object to save
+ * @param removeMissing - Remove properties missing from `data`
+ * @throws {ConfigFileChangedError} If the file changed since it was loaded and the changes cannot be merged
+ * @throws {Error} If file write fails
+ * @example
+ * ```typescript
+ * const config: OpencodeConfig = { agents: [...] };
+ * await saveJsonFile('/path/to/config.json', config);
+ * // Comments in the original file are preserved
+ * ```
+ */
+async function saveJsonFile<T>(
+  filePath: string,
+  data: T,
+  removeMissing = false
+): Promise<void> {
+  const { after } = await rebasePreview(
+    renderJsonFile(filePath, data, removeMissing)
+  )
+
+  await writeFileAtomic(filePath, after)
+  // Update cache with new content
+  originalContentCache.set(filePath, after)
+}
+
+/**
+ * Write previously rendered files as a single all-or-nothing operation.
+ *
+ * Either every preview is written, or none is: if one write fails, the
+ * files already written are restored (see {@link commitFileWrites}).
+ * The content cache is only updated once all files have been written.
+ *
+ * @param previews - Previews returned by the `preview*Config` functions
+ * @throws {ConfigFileChangedError} If a file changed since it was loaded and the changes cannot be merged (nothing is written)
+ * @throws {TransactionError} If a write fails
+ * @example
+ * ```typescript
+ * await commitFilePreviews([
+ *   previewOpencodeConfig(opencodeConfig),
+ *   previewPluginConfig(pluginConfig),
+ * ]);
+ * ```
+ */
+export async function commitFilePreviews(
+  previews: FilePreview[]
+): Promise<void> {
+  const rebased: FilePreview[] = []
+  for (const preview of previews) {
+    rebased.push(await rebasePreview(preview))
+  }
+  await commitFileWrites(
+    rebased.map((preview) => ({ path: preview.path, content: preview.after }))
+  )
+  for (const preview of rebased) {
+    originalContentCache.set(preview.path, preview.after)
+  }
 }
 
 /**
  * Load the agent-mode-switcher plugin configuration.
  *
  * @returns Plugin configuration object, or null if file doesn't exist
+ * @throws {ConfigParseError} If the file is not valid JSONC
  */
 export async function loadPluginConfig(): Promise<ModeSwitcherConfig | null> {
   return loadJsonFile<ModeSwitcherConfig>(getPluginConfigPath())
@@ -295,13 +540,64 @@ export async function loadPluginConfig(): Promise<ModeSwitcherConfig | null> {
 export async function savePluginConfig(
   config: ModeSwitcherConfig
 ): Promise<void> {
-  await saveJsonFile(getPluginConfigPath(), config)
+  await saveJsonFile(getPluginConfigPath(), config, true)
+}
+
+/**
+ * Preview saving the agent-mode-switcher plugin configuration.
+ *
+ * @param config - Plugin configuration object that would be saved
+ * @returns The current and the would-be content of the file
+ */
+export function previewPluginConfig(config: ModeSwitcherConfig): FilePreview {
+  return renderJsonFile(getPluginConfigPath(), config, true)
+}
+
+/**
+ * Load a project-local agent-mode-switcher configuration.
+ *
+ * @param filePath - Absolute path to the project configuration file
+ * @returns Project configuration object, or null if file doesn't exist
+ * @throws {ConfigParseError} If the file is not valid JSONC
+ */
+export async function loadProjectPluginConfig(
+  filePath: string
+): Promise<ProjectModeSwitcherConfig | null> {
+  return loadJsonFile<ProjectModeSwitcherConfig>(filePath)
+}
+
+/**
+ * Save a project-local agent-mode-switcher configuration.
+ *
+ * @param filePath - Absolute path to the project configuration file
+ * @param config - Project configuration object to save
+ */
+export async function saveProjectPluginConfig(
+  filePath: string,
+  config: ProjectModeSwitcherConfig
+): Promise<void> {
+  await saveJsonFile(filePath, config, true)
+}
+
+/**
+ * Preview saving a project-local agent-mode-switcher configuration.
+ *
+ * @param filePath - Absolute path to the project configuration file
+ * @param config - Project configuration object that would be saved
+ * @returns The current and the would-be content of the file
+ */
+export function previewProjectPluginConfig(
+  filePath: string,
+  config: ProjectModeSwitcherConfig
+): FilePreview {
+  return renderJsonFile(filePath, config, true)
 }
 
 /**
  * Load the opencode configuration file.
  *
  * @returns Opencode configuration object, or null if file doesn't exist
+ * @throws {ConfigParseError} If the file is not valid JSONC
  */
 export async function loadOpencodeConfig(): Promise<OpencodeConfig | null> {
   return loadJsonFile<OpencodeConfig>(getOpencodeConfigPath())
@@ -318,10 +614,21 @@ export async function saveOpencodeConfig(
   await saveJsonFile(getOpencodeConfigPath(), config)
 }
 
+/**
+ * Preview saving the opencode configuration file.
+ *
+ * @param config - Opencode configuration object that would be saved
+ * @returns The current and the would-be content of the file
+ */
+export function previewOpencodeConfig(config: OpencodeConfig): FilePreview {
+  return renderJsonFile(getOpencodeConfigPath(), config)
+}
+
 /**
  * Load the oh-my-opencode configuration file.
  *
  * @returns Oh-my-opencode configuration object, or null if file doesn't exist
+ * @throws {ConfigParseError} If the file is not valid JSONC
  */
 export async function loadOhMyOpencodeConfig(): Promise<OhMyOpencodeConfig | null> {
   return loadJsonFile<OhMyOpencodeConfig>(getOhMyOpencodeConfigPath())
@@ -338,6 +645,18 @@ export async function saveOhMyOpencodeConfig(
   await saveJsonFile(getOhMyOpencodeConfigPath(), config)
 }
 
+/**
+ * Preview saving the oh-my-opencode configuration file.
+ *
+ * @param config - Oh-my-opencode configuration object that would be saved
+ * @returns The current and the would-be content of the file
+ */
+export function previewOhMyOpencodeConfig(
+  config: OhMyOpencodeConfig
+): FilePreview {
+  return renderJsonFile(getOhMyOpencodeConfigPath(), config)
+}
+
 /**
  * Check if the plugin configuration file exists.
  *
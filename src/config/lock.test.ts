@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test'
+import { existsSync, readFileSync, readdirSync, utimesSync } from 'node:fs'
+import { hostname } from 'node:os'
+import { join } from 'node:path'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { ConfigLockTimeoutError } from './errors.ts'
+import { withConfigLock } from './lock.ts'
+import { getLockPath } from './paths.ts'
+
+describe('lock', () => {
+  const testDir = useTempConfigDir('lock')
+
+  /**
+   * Writes a lock file as if it was held by another process.
+   */
+  const writeForeignLock = async (pid: number) => {
+    await Bun.write(
+      getLockPath(),
+      JSON.stringify({
+        pid,
+        hostname: hostname(),
+        token: 'foreign',
+        createdAt: new Date().toISOString(),
+      })
+    )
+  }
+
+  test('lock file lives in the config directory', () => {
+    expect(getLockPath()).toBe(join(testDir, 'agent-mode-switcher.lock'))
+  })
+
+  test('holds the lock while the function runs and releases it', async () => {
+    const result = await withConfigLock(async () => {
+      expect(existsSync(getLockPath())).toBe(true)
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(existsSync(getLockPath())).toBe(false)
+  })
+
+  test('releases the lock when the function throws', async () => {
+    await expect(
+      withConfigLock(async () => {
+        throw new Error('boom')
+      })
+    ).rejects.toThrow('boom')
+
+    expect(existsSync(getLockPath())).toBe(false)
+  })
+
+  test('is reentrant within the same call chain', async () => {
+    const result = await withConfigLock(() =>
+      withConfigLock(async () => 'nested')
+    )
+    expect(result).toBe('nested')
+  })
+
+  test('serializes concurrent callers', async () => {
+    const order: string[] = []
+    const run = (name: string) =>
+      withConfigLock(async () => {
+        order.push(`${name}:start`)
+        await Bun.sleep(20)
+        order.push(`${name}:end`)
+      })
+
+    await Promise.all([run('a'), run('b')])
+
+    // Either caller may win, but the critical sections never interleave
+    const [first] = order[0]?.split(':') ?? []
+    const second = first === 'a' ? 'b' : 'a'
+    expect(order).toEqual([
+      `${first}:start`,
+      `${first}:end`,
+      `${second}:start`,
+      `${second}:end`,
+    ])
+  })
+
+  test('times out while another live process holds the lock', async () => {
+    await writeForeignLock(process.pid)
+
+    await expect(
+      withConfigLock(async () => 'never', { timeoutMs: 100 })
+    ).rejects.toBeInstanceOf(ConfigLockTimeoutError)
+  })
+
+  test('takes over a lock whose owner is no longer running', async () => {
+    // Process IDs above the kernel limit can never be in use
+    await writeForeignLock(2 ** 22 + 1)
+
+    const result = await withConfigLock(async () => 'acquired', {
+      timeoutMs: 100,
+    })
+    expect(result).toBe('acquired')
+  })
+
+  test('takes over a lock older than the stale timeout', async () => {
+    await writeForeignLock(process.pid)
+    const past = new Date(Date.now() - 60_000)
+    utimesSync(getLockPath(), past, past)
+
+    const result = await withConfigLock(async () => 'acquired', {
+      timeoutMs: 100,
+      staleMs: 30_000,
+    })
+    expect(result).toBe('acquired')
+  })
+
+  test('leaves a lock taken over by another process in place', async () => {
+    await withConfigLock(async () => {
+      await writeForeignLock(process.pid)
+    })
+
+    expect(JSON.parse(readFileSync(getLockPath(), 'utf8')).token).toBe(
+      'foreign'
+    )
+    expect(readdirSync(testDir)).toEqual(['agent-mode-switcher.lock'])
+  })
+})
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Advisory lock serializing configuration writes.
+ *
+ * Several OpenCode instances may run at the same time, each loading the
+ * plugin and possibly rewriting the same configuration files. Every
+ * read-modify-write cycle is therefore run while holding a lock file
+ * (`agent-mode-switcher.lock` in the OpenCode configuration directory).
+ *
+ * The lock is created exclusively and records the owning process. A lock
+ * whose owner no longer runs, or which is older than the stale timeout,
+ * is considered abandoned (e.g. after a crash) and is taken over.
+ *
+ * The lock is reentrant within one asynchronous call chain, so functions
+ * that lock on their own can be called from code already holding it.
+ *
+ * @module config/lock
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import {
+  link,
+  mkdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises'
+import { hostname } from 'node:os'
+import { dirname } from 'node:path'
+import { ConfigLockTimeoutError } from './errors.ts'
+import { getLockPath } from './paths.ts'
+
+/**
+ * Options for {@link withConfigLock}.
+ */
+export interface ConfigLockOptions {
+  /** Maximum time to wait for the lock in milliseconds (default: 10000) */
+  timeoutMs?: number
+  /** Age after which a lock is considered abandoned (default: 30000) */
+  staleMs?: number
+}
+
+/**
+ * Content of the lock file.
+ */
+interface LockOwner {
+  /** Process ID of the owner */
+  pid: number
+  /** Host name of the owner, as PIDs are only meaningful per host */
+  hostname: string
+  /** Unique token identifying this acquisition */
+  token: string
+  /** ISO 8601 timestamp of when the lock was acquired */
+  createdAt: string
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_STALE_MS = 30_000
+const RETRY_INTERVAL_MS = 50
+
+/**
+ * Marks asynchronous call chains that already hold the lock.
+ */
+const lockContext = new AsyncLocalStorage<boolean>()
+
+/**
+ * Checks whether a process is running on this host.
+ *
+ * @param pid - The process ID
+ * @returns True if the process exists
+ * @private
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Reads the owner recorded in a lock file.
+ *
+ * @param lockPath - Path of the lock file
+ * @returns The owner, or null if the file is missing or unreadable
+ * @private
+ */
+async function readOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    return JSON.parse(await readFile(lockPath, 'utf8')) as LockOwner
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Checks whether an existing lock has been abandoned.
+ *
+ * @param lockPath - Path of the lock file
+ * @param owner - The recorded owner, or null if it could not be read
+ * @param staleMs - Age after which the lock is considered abandoned
+ * @returns True if the lock may be taken over
+ * @private
+ */
+async function isStale(
+  lockPath: string,
+  owner: LockOwner | null,
+  staleMs: number
+): Promise<boolean> {
+  if (owner && owner.hostname === hostname() && !isProcessAlive(owner.pid)) {
+    return true
+  }
+  try {
+    const { mtimeMs } = await stat(lockPath)
+    return Date.now() - mtimeMs > staleMs
+  } catch {
+    // Removed in the meantime; the next attempt will acquire it
+    return false
+  }
+}
+
+/**
+ * Tries once to create the lock file.
+ *
+ * @param lockPath - Path of the lock file
+ * @param owner - Owner to record
+ * @returns True if the lock was acquired
+ * @throws {Error} If the lock file cannot be created for another reason
+ * @private
+ */
+async function tryAcquire(
+  lockPath: string,
+  owner: LockOwner
+): Promise<boolean> {
+  try {
+    await writeFile(lockPath, JSON.stringify(owner), { flag: 'wx' })
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Removes the lock file if it still belongs to an expected acquisition.
+ *
+ * Reading the owner and then removing the file would race with another
+ * process replacing the lock in between, e.g. by recovering the same
+ * stale lock and acquiring a new one. The file is therefore first renamed
+ * to a unique name, which is atomic, and the owner is compared only
+ * afterwards. A file that turns out to belong to someone else is linked
+ * back into place, unless the lock has been acquired again meanwhile.
+ *
+ * @param lockPath - Path of the lock file
+ * @param token - Token of the expected owner, or undefined if the lock
+ *   was unreadable when it was inspected
+ * @returns True if the lock was removed
+ * @private
+ */
+async function removeLockOwnedBy(
+  lockPath: string,
+  token: string | undefined
+): Promise<boolean> {
+  const movedPath = `${lockPath}.${randomUUID()}`
+  try {
+    await rename(lockPath, movedPath)
+  } catch {
+    // Already removed by another process
+    return false
+  }
+
+  const owned = (await readOwner(movedPath))?.token === token
+  if (!owned) {
+    try {
+      await link(movedPath, lockPath)
+    } catch {
+      // Acquired by another process in the meantime
+    }
+  }
+  await rm(movedPath, { force: true })
+  return owned
+}
+
+/**
+ * Acquires the configuration lock, waiting while another process holds it.
+ *
+ * @param options - Lock options
+ * @returns Promise resolving to a function that releases the lock
+ * @throws {ConfigLockTimeoutError} If the lock is not acquired in time
+ * @private
+ */
+async function acquireConfigLock(
+  options: ConfigLockOptions
+): Promise<() => Promise<void>> {
+  const lockPath = getLockPath()
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: hostname(),
+    token: randomUUID(),
+    createdAt: new Date().toISOString(),
+  }
+
+  await mkdir(dirname(lockPath), { recursive: true })
+  const deadline = Date.now() + timeoutMs
+
+  while (!(await tryAcquire(lockPath, owner))) {
+    const current = await readOwner(lockPath)
+    if (await isStale(lockPath, current, staleMs)) {
+      await removeLockOwnedBy(lockPath, current?.token)
+      continue
+    }
+    if (Date.now() >= deadline) {
+      throw new ConfigLockTimeoutError(lockPath, current?.pid ?? null)
+    }
+    await Bun.sleep(RETRY_INTERVAL_MS)
+  }
+
+  return async () => {
+    // Only remove the lock if it was not taken over in the meantime
+    await removeLockOwnedBy(lockPath, owner.token)
+  }
+}
+
+/**
+ * Runs a function while holding the configuration lock.
+ *
+ * Nested calls within the same asynchronous call chain reuse the lock
+ * that is already held.
+ *
+ * @param fn - The function to run
+ * @param options - Lock options
+ * @returns Promise resolving to the result of `fn`
+ * @throws {ConfigLockTimeoutError} If the lock is not acquired in time
+ * @example
+ * ```typescript
+ * await withConfigLock(async () => {
+ *   const config = await loadOpencodeConfig();
+ *   await saveOpencodeConfig({ ...config, model: 'opencode/glm-4.7-free' });
+ * });
+ * ```
+ */
+export async function withConfigLock<T>(
+  fn: () => Promise<T>,
+  options: ConfigLockOptions = {}
+): Promise<T> {
+  if (lockContext.getStore()) {
+    return fn()
+  }
+
+  const release = await acquireConfigLock(options)
+  try {
+    return await lockContext.run(true, fn)
+  } finally {
+    await release()
+  }
+}
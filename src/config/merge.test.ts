@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test'
+import { diffJson, findConflicts } from './merge.ts'
+
+describe('merge', () => {
+  describe('diffJson', () => {
+    test('returns no changes for equal values', () => {
+      expect(diffJson({ a: { b: [1, 2] } }, { a: { b: [1, 2] } })).toEqual([])
+    })
+
+    test('lists changed, added and removed leaf values', () => {
+      expect(
+        diffJson({ a: 1, b: { c: 2, d: 3 } }, { a: 1, b: { c: 4 }, e: 5 })
+      ).toEqual([
+        { path: ['b', 'c'], value: 4 },
+        { path: ['b', 'd'], value: undefined },
+        { path: ['e'], value: 5 },
+      ])
+    })
+
+    test('treats arrays as single values', () => {
+      expect(diffJson({ list: [1, 2] }, { list: [1, 3] })).toEqual([
+        { path: ['list'], value: [1, 3] },
+      ])
+    })
+  })
+
+  describe('findConflicts', () => {
+    test('changes to different values do not conflict', () => {
+      expect(
+        findConflicts(
+          [{ path: ['model'], value: 'a' }],
+          [{ path: ['agent', 'build', 'model'], value: 'b' }]
+        )
+      ).toEqual([])
+    })
+
+    test('identical changes do not conflict', () => {
+      expect(
+        findConflicts(
+          [{ path: ['model'], value: 'a' }],
+          [{ path: ['model'], value: 'a' }]
+        )
+      ).toEqual([])
+    })
+
+    test('different changes to the same value conflict', () => {
+      expect(
+        findConflicts(
+          [{ path: ['agent', 'build', 'model'], value: 'a' }],
+          [{ path: ['agent', 'build', 'model'], value: 'b' }]
+        )
+      ).toEqual(['agent.build.model'])
+    })
+
+    test('changes to a value and one of its ancestors conflict', () => {
+      expect(
+        findConflicts(
+          [{ path: ['agent', 'build', 'model'], value: 'a' }],
+          [{ path: ['agent'], value: undefined }]
+        )
+      ).toEqual(['agent.build.model'])
+    })
+  })
+})
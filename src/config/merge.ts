@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Three-way merging of JSON configuration changes.
+ *
+ * When a configuration file is edited by someone else between being
+ * loaded and being saved, the plugin's changes are re-applied on top of
+ * the new file content. Changes are compared per leaf value: edits to
+ * different values merge cleanly, while edits to the same value (or to a
+ * value and one of its ancestors) conflict.
+ *
+ * @module config/merge
+ */
+
+import { isObject } from './guards.ts'
+
+/**
+ * JSON path represented as an array of property keys.
+ */
+export type JsonPath = string[]
+
+/**
+ * A change of a single leaf value.
+ */
+export interface JsonChange {
+  /** Path of the changed value */
+  path: JsonPath
+  /** New value, or undefined if the value was removed */
+  value: unknown
+}
+
+/**
+ * Compares two JSON values for equality.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values serialize identically
+ * @private
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (isObject(a) && isObject(b)) {
+    const aKeys = Object.keys(a)
+    return (
+      aKeys.length === Object.keys(b).length &&
+      aKeys.every((key) => key in b && jsonEqual(a[key], b[key]))
+    )
+  }
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Lists the leaf values that differ between two JSON values.
+ *
+ * Objects are compared key by key; arrays and primitives are compared as
+ * a whole.
+ *
+ * @param base - The original value
+ * @param target - The changed value
+ * @param path - Path of the values (default: root)
+ * @returns The changes turning `base` into `target`
+ * @example
+ * ```typescript
+ * diffJson({ a: 1, b: { c: 2 } }, { a: 1, b: { c: 3 }, d: 4 })
+ * // Returns: [{ path: ['b', 'c'], value: 3 }, { path: ['d'], value: 4 }]
+ * ```
+ */
+export function diffJson(
+  base: unknown,
+  target: unknown,
+  path: JsonPath = []
+): JsonChange[] {
+  if (isObject(base) && isObject(target)) {
+    const keys = [...new Set([...Object.keys(base), ...Object.keys(target)])]
+    return keys.flatMap((key) =>
+      diffJson(base[key], target[key], [...path, key])
+    )
+  }
+  return jsonEqual(base, target) ? [] : [{ path, value: target }]
+}
+
+/**
+ * Checks whether one path equals or contains the other.
+ *
+ * @param a - First path
+ * @param b - Second path
+ * @returns True if the paths overlap
+ * @private
+ */
+function overlaps(a: JsonPath, b: JsonPath): boolean {
+  const length = Math.min(a.length, b.length)
+  return a.slice(0, length).every((key, index) => key === b[index])
+}
+
+/**
+ * Finds changes of one side that collide with changes of the other side.
+ *
+ * Two changes collide if their paths overlap and they don't set the same
+ * value.
+ *
+ * @param ours - Changes made by the plugin
+ * @param theirs - Changes made externally
+ * @returns Dotted paths of the conflicting plugin changes
+ * @example
+ * ```typescript
+ * findConflicts(
+ *   [{ path: ['model'], value: 'a' }],
+ *   [{ path: ['model'], value: 'b' }]
+ * )
+ * // Returns: ['model']
+ * ```
+ */
+export function findConflicts(
+  ours: JsonChange[],
+  theirs: JsonChange[]
+): string[] {
+  const conflicts = ours.filter((change) =>
+    theirs.some(
+      (other) =>
+        overlaps(change.path, other.path) &&
+        !(
+          change.path.length === other.path.length &&
+          jsonEqual(change.value, other.value)
+        )
+    )
+  )
+  return conflicts.map((change) => change.path.join('.'))
+}
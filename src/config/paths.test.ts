@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdirSync, rmSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { ConfigFileConflictError } from './errors.ts'
+import {
+  CONFIG_PATHS,
+  PLUGIN_CONFIG_ENV,
+  expandPath,
+  findConfigFile,
+  getCommandsDir,
+  getOhMyOpencodeConfigPath,
+  getOpencodeConfigDir,
+  getOpencodeConfigPath,
+  getPluginConfigPath,
+} from './paths.ts'
+
+/**
+ * Environment variables that influence path resolution.
+ */
+const PATH_ENV_VARS = [
+  PLUGIN_CONFIG_ENV,
+  'OPENCODE_CONFIG',
+  'OPENCODE_CONFIG_DIR',
+  'XDG_CONFIG_HOME',
+]
+
+describe('paths', () => {
+  const savedEnv: Record<string, string | undefined> = {}
+
+  beforeEach(() => {
+    for (const name of PATH_ENV_VARS) {
+      savedEnv[name] = process.env[name]
+      delete process.env[name]
+    }
+  })
+
+  afterEach(() => {
+    for (const name of PATH_ENV_VARS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = savedEnv[name]
+      }
+    }
+  })
+
+  describe('expandPath', () => {
+    test('expands ~ to home directory', () => {
+      const result = expandPath('~/test/path')
+      expect(result).toBe(join(homedir(), 'test/path'))
+    })
+
+    test('keeps absolute path unchanged', () => {
+      const absolutePath = '/absolute/path/to/file'
+      const result = expandPath(absolutePath)
+      expect(result).toBe(absolutePath)
+    })
+
+    test('keeps relative path unchanged', () => {
+      const relativePath = 'relative/path/to/file'
+      const result = expandPath(relativePath)
+      expect(result).toBe(relativePath)
+    })
+
+    test('handles empty string', () => {
+      const result = expandPath('')
+      expect(result).toBe('')
+    })
+
+    test('handles path with only ~', () => {
+      const result = expandPath('~')
+      expect(result).toBe('~')
+    })
+
+    test('expands ~/', () => {
+      const result = expandPath('~/')
+      expect(result).toBe(join(homedir(), ''))
+    })
+  })
+
+  describe('config path functions', () => {
+    test('getPluginConfigPath returns correct path', () => {
+      const result = getPluginConfigPath()
+      expect(result).toBe(
+        join(homedir(), '.config/opencode/agent-mode-switcher.json')
+      )
+    })
+
+    test('getOpencodeConfigPath returns correct path', () => {
+      const result = getOpencodeConfigPath()
+      expect(result).toBe(join(homedir(), '.config/opencode/opencode.json'))
+    })
+
+    test('getOhMyOpencodeConfigPath returns correct path', () => {
+      const result = getOhMyOpencodeConfigPath()
+      expect(result).toBe(
+        join(homedir(), '.config/opencode/oh-my-opencode.json')
+      )
+    })
+  })
+
+  describe('environment overrides', () => {
+    test('XDG_CONFIG_HOME changes the config directory', () => {
+      process.env.XDG_CONFIG_HOME = '/data/config'
+      expect(getOpencodeConfigDir()).toBe('/data/config/opencode')
+      expect(getOpencodeConfigPath()).toBe(
+        '/data/config/opencode/opencode.json'
+      )
+      expect(getOhMyOpencodeConfigPath()).toBe(
+        '/data/config/opencode/oh-my-opencode.json'
+      )
+      expect(getPluginConfigPath()).toBe(
+        '/data/config/opencode/agent-mode-switcher.json'
+      )
+      expect(getCommandsDir()).toBe('/data/config/opencode/command')
+    })
+
+    test('OPENCODE_CONFIG_DIR takes precedence over XDG_CONFIG_HOME', () => {
+      process.env.XDG_CONFIG_HOME = '/data/config'
+      process.env.OPENCODE_CONFIG_DIR = '/opt/opencode'
+      expect(getOpencodeConfigDir()).toBe('/opt/opencode')
+      expect(getCommandsDir()).toBe('/opt/opencode/command')
+    })
+
+    test('OPENCODE_CONFIG overrides only the opencode.json path', () => {
+      process.env.OPENCODE_CONFIG = '/etc/opencode/custom.json'
+      expect(getOpencodeConfigPath()).toBe('/etc/opencode/custom.json')
+      expect(getOhMyOpencodeConfigPath()).toBe(
+        join(homedir(), '.config/opencode/oh-my-opencode.json')
+      )
+    })
+
+    test('plugin-specific override sets the plugin config path', () => {
+      process.env[PLUGIN_CONFIG_ENV] = '~/dotfiles/agent-mode-switcher.json'
+      expect(getPluginConfigPath()).toBe(
+        join(homedir(), 'dotfiles/agent-mode-switcher.json')
+      )
+    })
+
+    test('CONFIG_PATHS follows the overrides', () => {
+      process.env.OPENCODE_CONFIG_DIR = '/opt/opencode'
+      process.env.OPENCODE_CONFIG = '/etc/opencode.json'
+
+      expect(CONFIG_PATHS).toEqual({
+        pluginConfig: '/opt/opencode/agent-mode-switcher.json',
+        opencodeConfig: '/etc/opencode.json',
+        ohMyOpencodeConfig: '/opt/opencode/oh-my-opencode.json',
+      })
+    })
+
+    test('empty variables are ignored', () => {
+      process.env.XDG_CONFIG_HOME = ''
+      expect(getOpencodeConfigDir()).toBe(join(homedir(), '.config/opencode'))
+    })
+  })
+
+  describe('jsonc variants', () => {
+    const testDir = '/tmp/opencode-agent-modes-paths-test'
+
+    beforeEach(() => {
+      mkdirSync(testDir, { recursive: true })
+      process.env.OPENCODE_CONFIG_DIR = testDir
+    })
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true })
+    })
+
+    test('defaults to .json when no file exists', () => {
+      expect(findConfigFile(testDir, 'opencode')).toBe(null)
+      expect(getOpencodeConfigPath()).toBe(join(testDir, 'opencode.json'))
+    })
+
+    test('uses the .jsonc file when only it exists', async () => {
+      await Bun.write(join(testDir, 'opencode.jsonc'), '{}')
+      await Bun.write(join(testDir, 'oh-my-opencode.jsonc'), '{}')
+      await Bun.write(join(testDir, 'agent-mode-switcher.jsonc'), '{}')
+
+      expect(getOpencodeConfigPath()).toBe(join(testDir, 'opencode.jsonc'))
+      expect(getOhMyOpencodeConfigPath()).toBe(
+        join(testDir, 'oh-my-opencode.jsonc')
+      )
+      expect(getPluginConfigPath()).toBe(
+        join(testDir, 'agent-mode-switcher.jsonc')
+      )
+    })
+
+    test('uses the .json file when only it exists', async () => {
+      await Bun.write(join(testDir, 'opencode.json'), '{}')
+      expect(getOpencodeConfigPath()).toBe(join(testDir, 'opencode.json'))
+    })
+
+    test('throws when both variants exist', async () => {
+      await Bun.write(join(testDir, 'opencode.json'), '{}')
+      await Bun.write(join(testDir, 'opencode.jsonc'), '{}')
+
+      expect(() => getOpencodeConfigPath()).toThrow(ConfigFileConflictError)
+      expect(() => getOpencodeConfigPath()).toThrow(/opencode\.jsonc/)
+    })
+  })
+})
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Path resolution for configuration files.
+ *
+ * All configuration paths used by the plugin are resolved here so that
+ * environment overrides are honored consistently:
+ *
+ * - `OPENCODE_AGENT_MODES_CONFIG`: path to agent-mode-switcher.json
+ * - `OPENCODE_CONFIG`: path to opencode.json
+ * - `OPENCODE_CONFIG_DIR`: directory used instead of the global one
+ * - `XDG_CONFIG_HOME`: base directory, resolving to `$XDG_CONFIG_HOME/opencode`
+ *
+ * Without any override, files live in `~/.config/opencode`. Environment
+ * variables are read on every call so that changes are picked up.
+ *
+ * OpenCode itself loads `OPENCODE_CONFIG_DIR` in addition to the global
+ * directory. The plugin writes a single set of files, so it uses that
+ * directory in place of the global one instead.
+ *
+ * Each configuration file may use either the `.json` or `.jsonc`
+ * extension. The variant that exists is used for both reading and
+ * writing; having both is an error.
+ *
+ * @module config/paths
+ */
+
+import { existsSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { ConfigFileConflictError } from './errors.ts'
+
+/**
+ * Environment variable overriding the plugin configuration file path.
+ */
+export const PLUGIN_CONFIG_ENV = 'OPENCODE_AGENT_MODES_CONFIG'
+
+/**
+ * Expands tilde (~) notation to the user's home directory path.
+ *
+ * @param path - File path that may contain ~ prefix
+ * @returns Expanded absolute path with ~ replaced by home directory
+ * @example
+ * ```typescript
+ * expandPath('~/config/settings.json')
+ * // Returns: '/Users/username/config/settings.json'
+ * ```
+ */
+export function expandPath(path: string): string {
+  if (path.startsWith('~/')) {
+    return join(homedir(), path.slice(2))
+  }
+  return path
+}
+
+/**
+ * Reads a non-empty environment variable and expands `~` in its value.
+ *
+ * @param name - Environment variable name
+ * @returns The expanded value, or undefined if the variable is unset or empty
+ * @private
+ */
+function readPathEnv(name: string): string | undefined {
+  const value = process.env[name]
+  return value ? expandPath(value) : undefined
+}
+
+/**
+ * Find an existing configuration file, accepting `.json` and `.jsonc`.
+ *
+ * @param dir - Directory to look in
+ * @param baseName - File name without extension (e.g., "opencode")
+ * @returns Absolute path to the existing file, or null if neither variant exists
+ * @throws {ConfigFileConflictError} If both `.json` and `.jsonc` variants exist
+ * @example
+ * ```typescript
+ * findConfigFile('/home/me/.config/opencode', 'opencode')
+ * // Returns: '/home/me/.config/opencode/opencode.jsonc' if only that exists
+ * ```
+ */
+export function findConfigFile(dir: string, baseName: string): string | null {
+  const existing = [`${baseName}.json`, `${baseName}.jsonc`]
+    .map((fileName) => join(dir, fileName))
+    .filter((filePath) => existsSync(filePath))
+
+  if (existing.length > 1) {
+    throw new ConfigFileConflictError(existing)
+  }
+  return existing[0] ?? null
+}
+
+/**
+ * Resolve a configuration file path, accepting `.json` and `.jsonc`.
+ *
+ * Returns the variant that exists, or the `.json` path if neither exists
+ * (used when the file is created for the first time).
+ *
+ * @param dir - Directory to look in
+ * @param baseName - File name without extension (e.g., "opencode")
+ * @returns Absolute path to the configuration file
+ * @throws {ConfigFileConflictError} If both `.json` and `.jsonc` variants exist
+ */
+export function resolveConfigFile(dir: string, baseName: string): string {
+  return findConfigFile(dir, baseName) ?? join(dir, `${baseName}.json`)
+}
+
+/**
+ * Get the OpenCode configuration directory.
+ *
+ * Resolution order:
+ * 1. `OPENCODE_CONFIG_DIR`
+ * 2. `$XDG_CONFIG_HOME/opencode`
+ * 3. `~/.config/opencode`
+ *
+ * Unlike OpenCode, which reads `OPENCODE_CONFIG_DIR` on top of the global
+ * directory, the plugin reads and writes only the `OPENCODE_CONFIG_DIR`
+ * files when it is set.
+ *
+ * @returns Absolute path to the OpenCode configuration directory
+ * @example
+ * ```typescript
+ * process.env.XDG_CONFIG_HOME = '/data/config'
+ * getOpencodeConfigDir() // Returns: '/data/config/opencode'
+ * ```
+ */
+export function getOpencodeConfigDir(): string {
+  const configDir = readPathEnv('OPENCODE_CONFIG_DIR')
+  if (configDir) {
+    return configDir
+  }
+
+  const xdgConfigHome = readPathEnv('XDG_CONFIG_HOME')
+  if (xdgConfigHome) {
+    return join(xdgConfigHome, 'opencode')
+  }
+
+  return join(homedir(), '.config', 'opencode')
+}
+
+/**
+ * Get the absolute path to the plugin configuration file.
+ *
+ * Honors `OPENCODE_AGENT_MODES_CONFIG`, falling back to
+ * `agent-mode-switcher.json(c)` in the OpenCode configuration directory.
+ *
+ * @returns Absolute path to agent-mode-switcher.json or .jsonc
+ * @throws {ConfigFileConflictError} If both `.json` and `.jsonc` variants exist
+ */
+export function getPluginConfigPath(): string {
+  return (
+    readPathEnv(PLUGIN_CONFIG_ENV) ??
+    resolveConfigFile(getOpencodeConfigDir(), 'agent-mode-switcher')
+  )
+}
+
+/**
+ * Get the absolute path to the opencode configuration file.
+ *
+ * Honors `OPENCODE_CONFIG`, falling back to `opencode.json(c)` in the
+ * OpenCode configuration directory.
+ *
+ * @returns Absolute path to opencode.json or opencode.jsonc
+ * @throws {ConfigFileConflictError} If both `.json` and `.jsonc` variants exist
+ */
+export function getOpencodeConfigPath(): string {
+  return (
+    readPathEnv('OPENCODE_CONFIG') ??
+    resolveConfigFile(getOpencodeConfigDir(), 'opencode')
+  )
+}
+
+/**
+ * Get the absolute path to the oh-my-opencode configuration file.
+ *
+ * @returns Absolute path to oh-my-opencode.json or oh-my-opencode.jsonc
+ * @throws {ConfigFileConflictError} If both `.json` and `.jsonc` variants exist
+ */
+export function getOhMyOpencodeConfigPath(): string {
+  return resolveConfigFile(getOpencodeConfigDir(), 'oh-my-opencode')
+}
+
+/**
+ * Configuration file paths.
+ *
+ * Each property resolves the path on access, so environment overrides are
+ * honored.
+ *
+ * @deprecated Use {@link getPluginConfigPath}, {@link getOpencodeConfigPath}
+ *   and {@link getOhMyOpencodeConfigPath}
+ */
+export const CONFIG_PATHS = {
+  get pluginConfig(): string {
+    return getPluginConfigPath()
+  },
+  get opencodeConfig(): string {
+    return getOpencodeConfigPath()
+  },
+  get ohMyOpencodeConfig(): string {
+    return getOhMyOpencodeConfigPath()
+  },
+}
+
+/**
+ * Get the directory where OpenCode looks for slash command files.
+ *
+ * @returns Absolute path to the `command` directory
+ */
+export function getCommandsDir(): string {
+  return join(getOpencodeConfigDir(), 'command')
+}
+
+/**
+ * Get the directory where configuration snapshots are stored.
+ *
+ * @returns Absolute path to the `agent-mode-switcher-backups` directory
+ */
+export function getBackupDir(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher-backups')
+}
+
+/**
+ * Get the path of the lock file guarding configuration writes.
+ *
+ * @returns Absolute path to `agent-mode-switcher.lock`
+ */
+export function getLockPath(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher.lock')
+}
+
+/**
+ * Get the path of the manifest of slash command files installed by the
+ * plugin.
+ *
+ * @returns Absolute path to `agent-mode-switcher-commands.json`
+ */
+export function getCommandManifestPath(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher-commands.json')
+}
+
+/**
+ * Get the path of the file recording the last applied schedule window.
+ *
+ * @returns Absolute path to `agent-mode-switcher-schedule.json`
+ */
+export function getScheduleStatePath(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher-schedule.json')
+}
+
+/**
+ * Get the path of the file recording token usage.
+ *
+ * @returns Absolute path to `agent-mode-switcher-usage.json`
+ */
+export function getUsageStatePath(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher-usage.json')
+}
+
+/**
+ * Get the path of the file recording spend against the budget.
+ *
+ * @returns Absolute path to `agent-mode-switcher-spend.json`
+ */
+export function getSpendStatePath(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher-spend.json')
+}
+
+/**
+ * Get the path of the file recording provider errors and failovers.
+ *
+ * @returns Absolute path to `agent-mode-switcher-failover.json`
+ */
+export function getFailoverStatePath(): string {
+  return join(getOpencodeConfigDir(), 'agent-mode-switcher-failover.json')
+}
@@ -0,0 +1,209 @@
+import { describe, expect, test } from 'bun:test'
+import { PresetInheritanceError } from './errors.ts'
+import {
+  findDependentPresets,
+  getInheritanceChain,
+  getPresetAliases,
+  renamePreset,
+  resolvePreset,
+  resolvePresets,
+  setAgentSettings,
+} from './presets.ts'
+import type { ModePreset } from './types.ts'
+
+describe('presets', () => {
+  const createPresets = (): Record<string, ModePreset> => ({
+    performance: {
+      description: 'High-performance models',
+      model: 'anthropic/claude-sonnet-4',
+      opencode: {
+        build: { model: 'anthropic/claude-sonnet-4', variant: 'high' },
+        plan: { model: 'anthropic/claude-sonnet-4' },
+      },
+      'oh-my-opencode': {
+        agents: { sisyphus: { model: 'anthropic/claude-opus-4' } },
+      },
+    },
+    balanced: {
+      extends: 'performance',
+      description: 'Cheaper planning',
+      opencode: { plan: { model: 'opencode/glm-4.7-free' } },
+    } as ModePreset,
+    economy: {
+      extends: 'balanced',
+      description: 'Cheap everything',
+      model: 'opencode/glm-4.7-free',
+      opencode: { build: { model: 'opencode/glm-4.7-free' } },
+    } as ModePreset,
+  })
+
+  describe('getInheritanceChain', () => {
+    test('returns the preset alone without extends', () => {
+      expect(getInheritanceChain(createPresets(), 'performance')).toEqual([
+        'performance',
+      ])
+    })
+
+    test('follows chains up to the root preset', () => {
+      expect(getInheritanceChain(createPresets(), 'economy')).toEqual([
+        'economy',
+        'balanced',
+        'performance',
+      ])
+    })
+
+    test('detects cycles', () => {
+      const presets = createPresets()
+      ;(presets.performance as ModePreset).extends = 'economy'
+
+      expect(() => getInheritanceChain(presets, 'economy')).toThrow(
+        PresetInheritanceError
+      )
+      expect(() => getInheritanceChain(presets, 'economy')).toThrow(
+        'economy -> balanced -> performance -> economy'
+      )
+    })
+
+    test('detects unknown parents', () => {
+      const presets = createPresets()
+      ;(presets.balanced as ModePreset).extends = 'missing'
+
+      expect(() => getInheritanceChain(presets, 'economy')).toThrow(
+        'extends unknown preset "missing"'
+      )
+    })
+  })
+
+  describe('resolvePreset', () => {
+    test('deep-merges the preset over its ancestors', () => {
+      const resolved = resolvePreset(createPresets(), 'economy')
+
+      expect(resolved).toEqual({
+        extends: 'balanced',
+        description: 'Cheap everything',
+        model: 'opencode/glm-4.7-free',
+        opencode: {
+          build: { model: 'opencode/glm-4.7-free', variant: 'high' },
+          plan: { model: 'opencode/glm-4.7-free' },
+        },
+        'oh-my-opencode': {
+          agents: { sisyphus: { model: 'anthropic/claude-opus-4' } },
+        },
+      })
+    })
+
+    test('does not inherit aliases', () => {
+      const presets = createPresets()
+      presets.performance = {
+        ...presets.performance,
+        aliases: ['perf'],
+      } as ModePreset
+
+      expect(resolvePreset(presets, 'balanced').aliases).toBeUndefined()
+      expect(resolvePreset(presets, 'performance').aliases).toEqual(['perf'])
+    })
+
+    test('does not modify the presets', () => {
+      const presets = createPresets()
+      const before = structuredClone(presets)
+      resolvePreset(presets, 'economy')
+
+      expect(presets).toEqual(before)
+    })
+
+    test('throws for unknown presets', () => {
+      expect(() => resolvePreset(createPresets(), 'missing')).toThrow(
+        'Preset "missing" not found'
+      )
+    })
+  })
+
+  describe('resolvePresets', () => {
+    test('resolves every preset and keeps their order', () => {
+      const resolved = resolvePresets(createPresets())
+
+      expect(Object.keys(resolved)).toEqual([
+        'performance',
+        'balanced',
+        'economy',
+      ])
+      expect(resolved.balanced?.opencode.build).toEqual({
+        model: 'anthropic/claude-sonnet-4',
+        variant: 'high',
+      })
+    })
+  })
+
+  describe('getPresetAliases', () => {
+    test('maps aliases to their presets', () => {
+      expect(
+        getPresetAliases({
+          performance: { description: 'P', aliases: ['perf', 'p'] },
+          economy: { description: 'E', aliases: ['cheap'] },
+        })
+      ).toEqual({ perf: 'performance', p: 'performance', cheap: 'economy' })
+    })
+  })
+
+  describe('findDependentPresets', () => {
+    test('lists presets extending the preset directly', () => {
+      expect(findDependentPresets(createPresets(), 'performance')).toEqual([
+        'balanced',
+      ])
+      expect(findDependentPresets(createPresets(), 'economy')).toEqual([])
+    })
+  })
+
+  describe('renamePreset', () => {
+    test('renames the preset in place', () => {
+      const renamed = renamePreset(createPresets(), 'balanced', 'hybrid')
+
+      expect(Object.keys(renamed)).toEqual(['performance', 'hybrid', 'economy'])
+      expect(renamed.hybrid?.description).toBe('Cheaper planning')
+    })
+
+    test('updates extends references', () => {
+      const renamed = renamePreset(createPresets(), 'balanced', 'hybrid')
+
+      expect(renamed.economy?.extends).toBe('hybrid')
+      expect(renamed.hybrid?.extends).toBe('performance')
+    })
+
+    test('does not modify the input', () => {
+      const presets = createPresets()
+      renamePreset(presets, 'balanced', 'hybrid')
+
+      expect(presets.economy?.extends).toBe('balanced')
+    })
+  })
+
+  describe('setAgentSettings', () => {
+    test('merges settings into an existing agent', () => {
+      const tree = { build: { model: 'a', variant: 'high', temperature: 0.2 } }
+
+      expect(setAgentSettings(tree, ['build'], { model: 'b' })).toEqual({
+        build: { model: 'b', variant: 'high', temperature: 0.2 },
+      })
+      expect(tree.build.model).toBe('a')
+    })
+
+    test('creates intermediate branches', () => {
+      expect(
+        setAgentSettings({ build: { model: 'a' } }, ['agents', 'oracle'], {
+          model: 'b',
+        })
+      ).toEqual({
+        build: { model: 'a' },
+        agents: { oracle: { model: 'b' } },
+      })
+    })
+
+    test('rejects paths through an agent', () => {
+      expect(() =>
+        setAgentSettings({ build: { model: 'a' } }, ['build', 'x'], {
+          model: 'b',
+        })
+      ).toThrow('"build" is an agent')
+    })
+  })
+})
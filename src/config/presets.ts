@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Preset inheritance.
+ *
+ * A preset may set `extends` to the name of another preset. It is then
+ * resolved as its parent (itself resolved recursively) deep-merged with
+ * the preset's own values, so presets only need to list what differs.
+ *
+ * @module config/presets
+ */
+
+import { PresetInheritanceError } from './errors.ts'
+import { isObject } from './guards.ts'
+import { deepMerge } from './layers.ts'
+import type { HierarchicalPreset, ModePreset, ModelConfig } from './types.ts'
+
+/**
+ * Gets the inheritance chain of a preset.
+ *
+ * @param presets - All presets by name
+ * @param name - The preset to start from
+ * @returns Preset names from `name` up to the root preset
+ * @throws {PresetInheritanceError} If a parent does not exist or the chain is circular
+ * @example
+ * ```typescript
+ * getInheritanceChain(
+ *   { base: {...}, mid: { extends: 'base', ... }, top: { extends: 'mid', ... } },
+ *   'top'
+ * )
+ * // Returns: ['top', 'mid', 'base']
+ * ```
+ */
+export function getInheritanceChain(
+  presets: Record<string, Partial<ModePreset>>,
+  name: string
+): string[] {
+  const chain = [name]
+  let parent = presets[name]?.extends
+
+  while (parent !== undefined) {
+    if (chain.includes(parent)) {
+      throw new PresetInheritanceError(name, [...chain, parent], 'circular')
+    }
+    if (!presets[parent]) {
+      throw new PresetInheritanceError(name, [...chain, parent], 'unknown')
+    }
+    chain.push(parent)
+    parent = presets[parent]?.extends
+  }
+
+  return chain
+}
+
+/**
+ * Resolves a preset by merging it over its ancestors.
+ *
+ * Objects are deep-merged, while strings (such as `model` and
+ * `description`) and arrays of the child replace those of the parent.
+ * The resolved preset keeps the child's own `extends`. `aliases` are not
+ * inherited, as an alias names exactly one preset.
+ *
+ * @param presets - All presets by name
+ * @param name - The preset to resolve
+ * @returns The resolved preset
+ * @throws {PresetInheritanceError} If a parent does not exist or the chain is circular
+ * @throws {Error} If the preset does not exist
+ */
+export function resolvePreset(
+  presets: Record<string, ModePreset>,
+  name: string
+): ModePreset {
+  if (!presets[name]) {
+    throw new Error(`Preset "${name}" not found`)
+  }
+
+  // Merge from the root ancestor down to the preset itself
+  const chain = getInheritanceChain(presets, name).reverse()
+  let resolved = {} as ModePreset
+  for (const presetName of chain) {
+    resolved = deepMerge(resolved, presets[presetName] as ModePreset)
+  }
+  const { aliases: _inherited, ...merged } = resolved
+  const aliases = presets[name]?.aliases
+  return {
+    ...merged,
+    ...(aliases && { aliases }),
+    // `opencode` may be omitted when every ancestor omits it
+    opencode: merged.opencode ?? {},
+  }
+}
+
+/**
+ * Resolves the inheritance of every preset.
+ *
+ * @param presets - All presets by name
+ * @returns The resolved presets, in the same order
+ * @throws {PresetInheritanceError} If a parent does not exist or a chain is circular
+ * @example
+ * ```typescript
+ * const resolved = resolvePresets(config.presets);
+ * resolved.economy.opencode // includes agents inherited from the parent
+ * ```
+ */
+export function resolvePresets(
+  presets: Record<string, ModePreset>
+): Record<string, ModePreset> {
+  const resolved: Record<string, ModePreset> = {}
+  for (const name of Object.keys(presets)) {
+    resolved[name] = resolvePreset(presets, name)
+  }
+  return resolved
+}
+
+/**
+ * Maps the aliases of all presets to the names of their presets.
+ *
+ * @param presets - All presets by name
+ * @returns Preset names by alias; of colliding aliases, the first one wins
+ * @example
+ * ```typescript
+ * getPresetAliases({ performance: { aliases: ['perf', 'p'], ... } })
+ * // Returns: { perf: 'performance', p: 'performance' }
+ * ```
+ */
+export function getPresetAliases(
+  presets: Record<string, Partial<ModePreset>>
+): Record<string, string> {
+  const aliases: Record<string, string> = {}
+  for (const [name, preset] of Object.entries(presets)) {
+    for (const alias of preset.aliases ?? []) {
+      aliases[alias] ??= name
+    }
+  }
+  return aliases
+}
+
+/**
+ * Lists the presets that directly extend a preset.
+ *
+ * @param presets - All presets by name
+ * @param name - The parent preset
+ * @returns Names of the presets whose `extends` is `name`
+ * @example
+ * ```typescript
+ * findDependentPresets(
+ *   { base: {...}, mid: { extends: 'base', ... } },
+ *   'base'
+ * )
+ * // Returns: ['mid']
+ * ```
+ */
+export function findDependentPresets(
+  presets: Record<string, Partial<ModePreset>>,
+  name: string
+): string[] {
+  return Object.keys(presets).filter((key) => presets[key]?.extends === name)
+}
+
+/**
+ * Renames a preset, keeping its position and the `extends` references of
+ * other presets.
+ *
+ * The presets are not modified. References are updated even if `oldName`
+ * is not one of the presets, as is the case for a project layer that only
+ * extends a global preset.
+ *
+ * @param presets - All presets by name
+ * @param oldName - Current name of the preset
+ * @param newName - New name of the preset
+ * @returns The renamed presets
+ * @example
+ * ```typescript
+ * renamePreset({ fast: {...}, cheap: { extends: 'fast', ... } }, 'fast', 'quick')
+ * // Returns: { quick: {...}, cheap: { extends: 'quick', ... } }
+ * ```
+ */
+export function renamePreset<T extends Partial<ModePreset>>(
+  presets: Record<string, T>,
+  oldName: string,
+  newName: string
+): Record<string, T> {
+  const renamed: Record<string, T> = {}
+  for (const [name, preset] of Object.entries(presets)) {
+    renamed[name === oldName ? newName : name] =
+      preset.extends === oldName ? { ...preset, extends: newName } : preset
+  }
+  return renamed
+}
+
+/**
+ * Sets the settings of a single agent in an agent tree.
+ *
+ * The settings are merged into the agent's existing settings, and missing
+ * intermediate branches are created. The tree is not modified.
+ *
+ * @param tree - The agent tree (`opencode` or `oh-my-opencode` of a preset)
+ * @param path - Path of the agent, e.g. `['agents', 'oracle']`
+ * @param settings - Settings to set, such as `model` and `variant`
+ * @returns The updated agent tree
+ * @throws {Error} If the path is empty or runs through an agent or a non-object value
+ * @example
+ * ```typescript
+ * setAgentSettings({ build: { model: 'a' } }, ['agents', 'oracle'], { model: 'b' })
+ * // Returns: { build: { model: 'a' }, agents: { oracle: { model: 'b' } } }
+ * ```
+ */
+export function setAgentSettings(
+  tree: HierarchicalPreset,
+  path: string[],
+  settings: ModelConfig
+): HierarchicalPreset {
+  const [key, ...rest] = path
+  if (key === undefined) {
+    throw new Error('Agent path must not be empty')
+  }
+
+  const current = tree[key]
+  if (current !== undefined && !isObject(current)) {
+    throw new Error(`"${key}" is not an agent or a group of agents`)
+  }
+  if (rest.length === 0) {
+    return { ...tree, [key]: { ...current, ...settings } }
+  }
+  if (current && typeof current.model === 'string') {
+    throw new Error(`"${key}" is an agent, not a group of agents`)
+  }
+  return {
+    ...tree,
+    [key]: setAgentSettings(
+      (current ?? {}) as HierarchicalPreset,
+      rest,
+      settings
+    ),
+  }
+}
@@ -0,0 +1,287 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import {
+  PLUGIN_CONFIG_SCHEMA,
+  findReservedModeNames,
+  validateAgainstSchema,
+  validatePluginConfig,
+} from './schema.ts'
+import type { ModeSwitcherConfig } from './types.ts'
+
+describe('schema', () => {
+  const createValidConfig = (): ModeSwitcherConfig => ({
+    currentMode: 'performance',
+    showToastOnStartup: true,
+    presets: {
+      performance: {
+        description: 'High-performance models',
+        model: 'anthropic/claude-sonnet-4',
+        opencode: { build: { model: 'anthropic/claude-sonnet-4' } },
+        'oh-my-opencode': { agents: { sisyphus: { model: 'a/b' } } },
+      },
+    },
+  })
+
+  // After changing the schema, regenerate the file with:
+  // bun -e "import { PLUGIN_CONFIG_SCHEMA as s } from './src/config/schema.ts'; await Bun.write('schema/agent-mode-switcher.schema.json', JSON.stringify(s, null, 2) + '\n')"
+  test('published schema file matches PLUGIN_CONFIG_SCHEMA', async () => {
+    const schemaPath = join(
+      import.meta.dir,
+      '../../schema/agent-mode-switcher.schema.json'
+    )
+    const published = await Bun.file(schemaPath).json()
+    expect(published).toEqual(PLUGIN_CONFIG_SCHEMA)
+  })
+
+  describe('validatePluginConfig', () => {
+    test('accepts a valid configuration', () => {
+      expect(validatePluginConfig(createValidConfig())).toEqual([])
+    })
+
+    test('reports every error with its JSON path', () => {
+      const config = {
+        currentMode: 42,
+        applyStrategy: 'rewrite',
+        backupRetention: -1,
+        presets: {
+          performance: {
+            description: 'Broken preset',
+            opencode: { build: 'anthropic/claude-sonnet-4' },
+            'oh-my-opencode': {},
+            modle: 'typo',
+          },
+        },
+      }
+
+      expect(validatePluginConfig(config)).toEqual([
+        { path: 'showToastOnStartup', message: 'is required' },
+        { path: 'currentMode', message: 'must be a string, got number' },
+        {
+          path: 'applyStrategy',
+          message: 'must be one of "file", "config-hook"',
+        },
+        { path: 'backupRetention', message: 'must be at least 0' },
+        {
+          path: 'presets.performance.opencode.build',
+          message: 'must be an object, got string',
+        },
+        {
+          path: 'presets.performance.modle',
+          message: 'is not a known property',
+        },
+      ])
+    })
+
+    test('reports missing preset fields', () => {
+      const config = createValidConfig() as unknown as {
+        presets: Record<string, Record<string, unknown>>
+      }
+      config.presets.performance = { opencode: {} }
+
+      expect(validatePluginConfig(config)).toEqual([
+        { path: 'presets.performance.description', message: 'is required' },
+      ])
+    })
+
+    test('reports unresolvable extends chains', () => {
+      const config = createValidConfig() as unknown as {
+        presets: Record<string, Record<string, unknown>>
+      }
+      config.presets.a = { description: 'A', extends: 'b' }
+      config.presets.b = { description: 'B', extends: 'a' }
+      config.presets.c = { description: 'C', extends: 'missing' }
+
+      expect(validatePluginConfig(config)).toEqual([
+        {
+          path: 'presets.a.extends',
+          message: 'Preset "a" has a circular "extends" chain: a -> b -> a',
+        },
+        {
+          path: 'presets.b.extends',
+          message: 'Preset "b" has a circular "extends" chain: b -> a -> b',
+        },
+        {
+          path: 'presets.c.extends',
+          message: 'Preset "c" extends unknown preset "missing" (c -> missing)',
+        },
+      ])
+    })
+
+    test('reports a currentMode without preset', () => {
+      const config = createValidConfig()
+      config.currentMode = 'economy'
+
+      expect(validatePluginConfig(config)).toEqual([
+        {
+          path: 'currentMode',
+          message:
+            'refers to unknown preset "economy" (available: performance)',
+        },
+      ])
+    })
+
+    test('reports aliases colliding with other presets', () => {
+      const config = createValidConfig()
+      config.presets.economy = {
+        description: 'Economy',
+        aliases: ['performance', 'cheap'],
+        opencode: {},
+      }
+      config.presets.budget = {
+        description: 'Budget',
+        aliases: ['cheap'],
+        opencode: {},
+      }
+
+      expect(validatePluginConfig(config)).toEqual([
+        {
+          path: 'presets.economy.aliases',
+          message: 'alias "performance" is the name of a preset',
+        },
+        {
+          path: 'presets.budget.aliases',
+          message: 'alias "cheap" is already an alias of preset "economy"',
+        },
+      ])
+    })
+
+    test('accepts preset names and aliases of /mode subcommands', () => {
+      const config = createValidConfig()
+      config.presets.list = { description: 'List', opencode: {} }
+      config.presets.economy = {
+        description: 'Economy',
+        aliases: ['Status'],
+        opencode: {},
+      }
+
+      expect(validatePluginConfig(config)).toEqual([])
+    })
+
+    test('reports invalid schedules', () => {
+      const config = createValidConfig()
+      config.timezone = 'Mars/Olympus'
+      config.schedule = {
+        defaultMode: 'economy',
+        windows: [{ mode: 'performance', start: '09:00', end: '09:00' }],
+      }
+      const invalidTime = {
+        ...createValidConfig(),
+        schedule: {
+          windows: [{ mode: 'performance', start: '9am', end: '17:00' }],
+        },
+      }
+
+      expect(validatePluginConfig(config)).toEqual([
+        {
+          path: 'timezone',
+          message: 'unknown time zone "Mars/Olympus"',
+        },
+        {
+          path: 'schedule.defaultMode',
+          message: 'refers to unknown preset "economy"',
+        },
+        { path: 'schedule.windows.0.end', message: 'must differ from start' },
+      ])
+      expect(validatePluginConfig(invalidTime)).toEqual([
+        {
+          path: 'schedule.windows.0.start',
+          message: 'must match the pattern ^([01][0-9]|2[0-3]):[0-5][0-9]$',
+        },
+      ])
+    })
+
+    test('reports usage limits with unknown modes', () => {
+      const config = createValidConfig()
+      config.usage = {
+        limits: [{ provider: 'anthropic', tokens: 1000, mode: 'economy' }],
+      }
+
+      expect(validatePluginConfig(config)).toEqual([
+        {
+          path: 'usage.limits.0.mode',
+          message: 'refers to unknown preset "economy"',
+        },
+      ])
+    })
+
+    test('reports budgets without a period or known mode', () => {
+      const config = createValidConfig()
+      config.budget = { mode: 'economy' }
+
+      expect(validatePluginConfig(config)).toEqual([
+        { path: 'budget.mode', message: 'refers to unknown preset "economy"' },
+        { path: 'budget', message: 'must set a daily or monthly budget' },
+      ])
+    })
+
+    test('reports failover modes of unknown presets', () => {
+      const config = createValidConfig()
+      const performance = config.presets.performance
+      if (!performance) throw new Error('expected the performance preset')
+      performance.failoverMode = 'economy'
+
+      expect(validatePluginConfig(config)).toEqual([
+        {
+          path: 'presets.performance.failoverMode',
+          message: 'refers to unknown preset "economy"',
+        },
+      ])
+    })
+
+    test('reports a non-object configuration at the root', () => {
+      expect(validatePluginConfig([])).toEqual([
+        { path: '', message: 'must be an object, got array' },
+      ])
+    })
+  })
+
+  describe('findReservedModeNames', () => {
+    test('reports preset names and aliases of /mode subcommands', () => {
+      const config = createValidConfig()
+      config.presets.list = { description: 'List', opencode: {} }
+      config.presets.economy = {
+        description: 'Economy',
+        aliases: ['cheap', 'Status'],
+        opencode: {},
+      }
+
+      expect(findReservedModeNames(config.presets)).toEqual([
+        {
+          path: 'presets.list',
+          message:
+            '"list" is the /mode list subcommand; use /mode switch list to switch to it',
+        },
+        {
+          path: 'presets.economy.aliases',
+          message:
+            'alias "Status" is the /mode status subcommand; use /mode switch Status to switch to it',
+        },
+      ])
+    })
+
+    test('returns nothing for ordinary names', () => {
+      expect(findReservedModeNames(createValidConfig().presets)).toEqual([])
+    })
+  })
+
+  describe('validateAgainstSchema', () => {
+    test('checks array items and duplicates', () => {
+      const schema = {
+        type: 'array',
+        items: { type: 'string' },
+        uniqueItems: true,
+      } as const
+
+      expect(validateAgainstSchema(['a', 1, 'a'], schema)).toEqual([
+        { path: '', message: 'must not contain duplicates' },
+        { path: '1', message: 'must be a string, got number' },
+      ])
+    })
+
+    test('checks integers', () => {
+      expect(validateAgainstSchema(1.5, { type: 'integer' })).toEqual([
+        { path: '', message: 'must be an integer, got number' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,765 @@
+/**
+ * @fileoverview JSON Schema of the plugin configuration and its validator.
+ *
+ * The schema is published as `schema/agent-mode-switcher.schema.json` so
+ * that editors can offer completion through the `$schema` property. The
+ * same schema is used to validate the configuration at startup with a
+ * small validator supporting the subset of JSON Schema used here.
+ *
+ * @module config/schema
+ */
+
+import { PresetInheritanceError } from './errors.ts'
+import { isObject } from './guards.ts'
+import { getInheritanceChain } from './presets.ts'
+import { isKnownTimeZone } from './timezone.ts'
+import type {
+  BudgetConfig,
+  ModePreset,
+  ScheduleConfig,
+  UsageConfig,
+} from './types.ts'
+
+/**
+ * URL of the published JSON Schema, referenced via `$schema`.
+ */
+export const PLUGIN_CONFIG_SCHEMA_URL =
+  'https://unpkg.com/opencode-agent-modes/schema/agent-mode-switcher.schema.json'
+
+/**
+ * Pattern of a time of day in schedule windows ("HH:MM", 24-hour clock).
+ */
+const TIME_OF_DAY_PATTERN = '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+
+/**
+ * Subcommands of the `/mode` slash command. `/mode <name>` runs the
+ * subcommand instead of switching to a preset of the same name, which is
+ * reached with `/mode switch <name>` instead.
+ */
+export const RESERVED_MODE_NAMES = ['switch', 'status', 'list', 'rollback']
+
+/**
+ * Checks if a mode name or alias is a `/mode` subcommand, ignoring case.
+ *
+ * @param name - The mode name or alias
+ * @returns True if the name is reserved
+ */
+export function isReservedModeName(name: string): boolean {
+  return RESERVED_MODE_NAMES.includes(name.toLowerCase())
+}
+
+/**
+ * Subset of JSON Schema supported by {@link validateAgainstSchema}.
+ */
+export interface JsonSchema {
+  $schema?: string
+  $id?: string
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  title?: string
+  description?: string
+  type?: 'object' | 'array' | 'string' | 'boolean' | 'integer' | 'number'
+  enum?: unknown[]
+  minLength?: number
+  pattern?: string
+  minimum?: number
+  minProperties?: number
+  required?: string[]
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  uniqueItems?: boolean
+}
+
+/**
+ * JSON Schema of agent-mode-switcher.json.
+ */
+export const PLUGIN_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: PLUGIN_CONFIG_SCHEMA_URL,
+  title: 'opencode-agent-modes configuration',
+  description: 'Configuration of the agent mode switcher plugin for OpenCode',
+  type: 'object',
+  required: ['currentMode', 'showToastOnStartup', 'presets'],
+  properties: {
+    $schema: { type: 'string' },
+    currentMode: {
+      description: 'Name of the active preset',
+      type: 'string',
+      minLength: 1,
+    },
+    showToastOnStartup: {
+      description: 'Show a toast with the current mode when OpenCode starts',
+      type: 'boolean',
+    },
+    applyStrategy: {
+      description:
+        'How the active preset is applied: by rewriting the configuration files, or through the plugin config hook',
+      enum: ['file', 'config-hook'],
+    },
+    backupRetention: {
+      description: 'Number of configuration snapshots to keep (0 disables)',
+      type: 'integer',
+      minimum: 0,
+    },
+    timezone: {
+      description:
+        'IANA time zone of the schedule windows and the budget days, e.g. "Europe/Berlin" (default: the system time zone)',
+      type: 'string',
+      minLength: 1,
+    },
+    schedule: {
+      description: 'Switch modes automatically by time of day',
+      type: 'object',
+      required: ['windows'],
+      properties: {
+        defaultMode: {
+          description:
+            'Mode active outside every window (default: keep the current mode)',
+          type: 'string',
+          minLength: 1,
+        },
+        windows: {
+          description:
+            'Windows in order of precedence; the first active window wins',
+          type: 'array',
+          items: { $ref: '#/$defs/scheduleWindow' },
+        },
+      },
+      additionalProperties: false,
+    },
+    usage: {
+      description: 'Track token usage and act on limits',
+      type: 'object',
+      required: ['limits'],
+      properties: {
+        windowHours: {
+          description:
+            'Length of the rolling usage window in hours (default: 5)',
+          type: 'integer',
+          minimum: 1,
+        },
+        limits: {
+          type: 'array',
+          items: { $ref: '#/$defs/usageLimit' },
+        },
+      },
+      additionalProperties: false,
+    },
+    budget: {
+      description: 'Track spend and switch modes when a budget is exhausted',
+      type: 'object',
+      required: ['mode'],
+      properties: {
+        daily: {
+          description: 'Budget per calendar day in USD',
+          type: 'number',
+          minimum: 0,
+        },
+        monthly: {
+          description: 'Budget per calendar month in USD',
+          type: 'number',
+          minimum: 0,
+        },
+        mode: {
+          description:
+            'Mode (name or alias) to switch to when a budget is exhausted',
+          type: 'string',
+          minLength: 1,
+        },
+        pricing: {
+          description:
+            'Prices by "provider/model", overriding the built-in pricing table',
+          type: 'object',
+          additionalProperties: { $ref: '#/$defs/modelPrice' },
+        },
+      },
+      additionalProperties: false,
+    },
+    failover: {
+      description:
+        "Switch to the preset's failoverMode on provider rate-limit errors",
+      type: 'object',
+      properties: {
+        threshold: {
+          description:
+            'Consecutive rate-limit errors of a provider before failing over (default: 3)',
+          type: 'integer',
+          minimum: 1,
+        },
+        cooldownMinutes: {
+          description:
+            'Minutes after a failover until switching back is offered (default: 30)',
+          type: 'integer',
+          minimum: 1,
+        },
+      },
+      additionalProperties: false,
+    },
+    presets: {
+      description: 'Mode presets by name',
+      type: 'object',
+      minProperties: 1,
+      additionalProperties: { $ref: '#/$defs/preset' },
+    },
+  },
+  $defs: {
+    preset: {
+      type: 'object',
+      required: ['description'],
+      properties: {
+        extends: {
+          description:
+            'Name of a preset to inherit from; only differing values need to be set',
+          type: 'string',
+        },
+        description: { type: 'string' },
+        aliases: {
+          description:
+            'Alternative names of the preset, e.g. "perf"; must be unique across presets',
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+          uniqueItems: true,
+        },
+        failoverMode: {
+          description:
+            'Mode (name or alias) to switch to when providers keep rate limiting',
+          type: 'string',
+          minLength: 1,
+        },
+        model: {
+          description: 'Global model, e.g. "anthropic/claude-sonnet-4"',
+          type: 'string',
+        },
+        opencode: { $ref: '#/$defs/hierarchicalPreset' },
+        'oh-my-opencode': { $ref: '#/$defs/ohMyOpencodePreset' },
+      },
+      additionalProperties: false,
+    },
+    scheduleWindow: {
+      type: 'object',
+      required: ['mode', 'start', 'end'],
+      properties: {
+        mode: {
+          description: 'Mode (name or alias) active during the window',
+          type: 'string',
+          minLength: 1,
+        },
+        days: {
+          description: 'Days the window starts on (default: every day)',
+          type: 'array',
+          items: { enum: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+          uniqueItems: true,
+        },
+        start: {
+          description: 'Start time of day',
+          type: 'string',
+          pattern: TIME_OF_DAY_PATTERN,
+        },
+        end: {
+          description:
+            'End time of day; earlier than start for windows spanning midnight',
+          type: 'string',
+          pattern: TIME_OF_DAY_PATTERN,
+        },
+      },
+      additionalProperties: false,
+    },
+    usageLimit: {
+      type: 'object',
+      required: ['tokens', 'mode'],
+      properties: {
+        provider: {
+          description:
+            'Provider whose tokens count, e.g. "anthropic"; omit to count all providers',
+          type: 'string',
+          minLength: 1,
+        },
+        tokens: {
+          description:
+            'Input, output and reasoning tokens allowed within the window',
+          type: 'integer',
+          minimum: 1,
+        },
+        mode: {
+          description:
+            'Mode (name or alias) to switch to, or recommend, at the limit',
+          type: 'string',
+          minLength: 1,
+        },
+        action: {
+          description:
+            'Switch to the mode (default), or only show a toast recommending it',
+          enum: ['switch', 'notify'],
+        },
+      },
+      additionalProperties: false,
+    },
+    modelPrice: {
+      description: 'Price of a model in USD per million tokens',
+      type: 'object',
+      required: ['input', 'output'],
+      properties: {
+        input: { type: 'number', minimum: 0 },
+        output: {
+          description: 'Price of output and reasoning tokens',
+          type: 'number',
+          minimum: 0,
+        },
+        cacheRead: {
+          description: 'Price of cache reads (default: the input price)',
+          type: 'number',
+          minimum: 0,
+        },
+        cacheWrite: {
+          description: 'Price of cache writes (default: the input price)',
+          type: 'number',
+          minimum: 0,
+        },
+      },
+      additionalProperties: false,
+    },
+    hierarchicalPreset: {
+      description:
+        'Agent settings, nested in the same shape as the target file',
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/agentNode' },
+    },
+    ohMyOpencodePreset: {
+      description:
+        'Settings of oh-my-opencode.json, nested in the same shape as the file',
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/ohMyOpencodeEntry' },
+    },
+    ohMyOpencodeEntry: {
+      description:
+        'A group of agents, or a top-level setting of the file such as "$schema"',
+      properties: {
+        model: { type: 'string' },
+        variant: { type: 'string' },
+      },
+    },
+    agentNode: {
+      description: 'Settings of an agent, or a group of agents',
+      type: 'object',
+      properties: {
+        model: { type: 'string' },
+        variant: { type: 'string' },
+      },
+    },
+  },
+}
+
+/**
+ * A single validation error.
+ */
+export interface ConfigValidationIssue {
+  /** Dotted JSON path of the invalid value (empty for the root) */
+  path: string
+  /** Description of the problem */
+  message: string
+}
+
+/**
+ * Returns the JSON type name of a value for error messages.
+ *
+ * @param value - The value
+ * @returns The type name (e.g., "array", "null", "object")
+ * @private
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+/**
+ * Checks a value against a `type` keyword.
+ *
+ * @param value - The value
+ * @param type - The expected JSON type
+ * @returns True if the value has the type
+ * @private
+ */
+function matchesType(
+  value: unknown,
+  type: NonNullable<JsonSchema['type']>
+): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number'
+    case 'string':
+      return typeof value === 'string'
+    case 'boolean':
+      return typeof value === 'boolean'
+  }
+}
+
+/**
+ * Resolves a local `$ref` such as `#/$defs/preset`.
+ *
+ * @param root - The root schema
+ * @param ref - The reference
+ * @returns The referenced schema
+ * @throws {Error} If the reference cannot be resolved
+ * @private
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.replace('#/$defs/', '')
+  const schema = root.$defs?.[name]
+  if (!schema) {
+    throw new Error(`Unresolvable schema reference: ${ref}`)
+  }
+  return schema
+}
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * Supports the keywords used by {@link PLUGIN_CONFIG_SCHEMA}: `$ref`,
+ * `type`, `enum`, `minLength`, `pattern`, `minimum`, `minProperties`,
+ * `required`, `properties`, `additionalProperties`, `items` and
+ * `uniqueItems`. Every error is reported, not only the first one.
+ *
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param root - Root schema used to resolve `$ref` (default: `schema`)
+ * @param path - JSON path of `value` (default: root)
+ * @returns The validation errors, empty if the value is valid
+ * @example
+ * ```typescript
+ * validateAgainstSchema({ currentMode: 1 }, PLUGIN_CONFIG_SCHEMA)
+ * // Returns: [{ path: 'currentMode', message: 'must be a string, got number' }, ...]
+ * ```
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path: string[] = []
+): ConfigValidationIssue[] {
+  if (schema.$ref) {
+    return validateAgainstSchema(
+      value,
+      resolveRef(root, schema.$ref),
+      root,
+      path
+    )
+  }
+
+  const at = path.join('.')
+  const issue = (message: string) => [{ path: at, message }]
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a'
+    return issue(
+      `must be ${article} ${schema.type}, got ${describeType(value)}`
+    )
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.map((v) => JSON.stringify(v)).join(', ')
+    return issue(`must be one of ${allowed}`)
+  }
+  if (
+    schema.minLength !== undefined &&
+    typeof value === 'string' &&
+    value.length < schema.minLength
+  ) {
+    return issue('must not be empty')
+  }
+  if (
+    schema.pattern !== undefined &&
+    typeof value === 'string' &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    return issue(`must match the pattern ${schema.pattern}`)
+  }
+  if (
+    schema.minimum !== undefined &&
+    typeof value === 'number' &&
+    value < schema.minimum
+  ) {
+    return issue(`must be at least ${schema.minimum}`)
+  }
+  if (Array.isArray(value)) {
+    const issues: ConfigValidationIssue[] = []
+    if (schema.uniqueItems && new Set(value).size !== value.length) {
+      issues.push({ path: at, message: 'must not contain duplicates' })
+    }
+    if (schema.items) {
+      for (const [index, item] of value.entries()) {
+        issues.push(
+          ...validateAgainstSchema(item, schema.items, root, [
+            ...path,
+            String(index),
+          ])
+        )
+      }
+    }
+    return issues
+  }
+  if (!isObject(value)) {
+    return []
+  }
+
+  const issues: ConfigValidationIssue[] = []
+  if (
+    schema.minProperties !== undefined &&
+    Object.keys(value).length < schema.minProperties
+  ) {
+    const count = schema.minProperties
+    issues.push({
+      path: at,
+      message: `must have at least ${count} ${count === 1 ? 'entry' : 'entries'}`,
+    })
+  }
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) {
+      issues.push({
+        path: [...path, key].join('.'),
+        message: 'is required',
+      })
+    }
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const childSchema = schema.properties?.[key] ?? schema.additionalProperties
+    if (childSchema === false) {
+      issues.push({
+        path: [...path, key].join('.'),
+        message: 'is not a known property',
+      })
+    } else if (childSchema && childSchema !== true) {
+      issues.push(
+        ...validateAgainstSchema(child, childSchema, root, [...path, key])
+      )
+    }
+  }
+  return issues
+}
+
+/**
+ * Checks that a mode referenced by the configuration exists.
+ *
+ * @param path - Dotted JSON path of the reference
+ * @param mode - The referenced mode name or alias
+ * @param presets - All presets by name
+ * @param aliases - Preset names by alias
+ * @returns The validation errors
+ * @private
+ */
+function validateModeReference(
+  path: string,
+  mode: string,
+  presets: Record<string, Partial<ModePreset>>,
+  aliases: Map<string, string>
+): ConfigValidationIssue[] {
+  return mode in presets || aliases.has(mode)
+    ? []
+    : [{ path, message: `refers to unknown preset "${mode}"` }]
+}
+
+/**
+ * Checks the parts of a schedule the JSON Schema cannot express.
+ *
+ * @param schedule - The schedule, already validated against the schema
+ * @param presets - All presets by name
+ * @param aliases - Preset names by alias
+ * @returns The validation errors
+ * @private
+ */
+function validateSchedule(
+  schedule: ScheduleConfig,
+  presets: Record<string, Partial<ModePreset>>,
+  aliases: Map<string, string>
+): ConfigValidationIssue[] {
+  const issues: ConfigValidationIssue[] = []
+  const checkMode = (path: string, mode: string) => {
+    issues.push(...validateModeReference(path, mode, presets, aliases))
+  }
+
+  if (schedule.defaultMode !== undefined) {
+    checkMode('schedule.defaultMode', schedule.defaultMode)
+  }
+  for (const [index, window] of schedule.windows.entries()) {
+    const path = `schedule.windows.${index}`
+    checkMode(`${path}.mode`, window.mode)
+    if (window.start === window.end) {
+      issues.push({ path: `${path}.end`, message: 'must differ from start' })
+    }
+  }
+  return issues
+}
+
+/**
+ * Validates the structure of a plugin configuration layer.
+ *
+ * Only checks the configuration against {@link PLUGIN_CONFIG_SCHEMA}. The
+ * global configuration is checked this way on its own, since the presets
+ * it refers to may come from the project-local layer; references are
+ * checked by {@link validatePluginConfig} once the layers are merged.
+ *
+ * @param config - The parsed configuration layer
+ * @returns The validation errors, empty if the structure is valid
+ */
+export function validatePluginConfigStructure(
+  config: unknown
+): ConfigValidationIssue[] {
+  return validateAgainstSchema(config, PLUGIN_CONFIG_SCHEMA)
+}
+
+/**
+ * Validates a plugin configuration.
+ *
+ * In addition to {@link PLUGIN_CONFIG_SCHEMA}, checks that `currentMode`
+ * names an existing preset, that every `extends` chain resolves, that
+ * no alias is the name or alias of another preset, that `timezone` is a
+ * known time zone, and that the schedule, usage limits,
+ * the budget and failover modes refer to existing presets.
+ *
+ * @param config - The parsed configuration
+ * @returns The validation errors, empty if the configuration is valid
+ * @example
+ * ```typescript
+ * const issues = validatePluginConfig(await loadPluginConfig());
+ * for (const { path, message } of issues) {
+ *   console.error(`${path}: ${message}`);
+ * }
+ * ```
+ */
+export function validatePluginConfig(config: unknown): ConfigValidationIssue[] {
+  const issues = validateAgainstSchema(config, PLUGIN_CONFIG_SCHEMA)
+  if (issues.length > 0 || !isObject(config) || !isObject(config.presets)) {
+    return issues
+  }
+
+  const { currentMode, timezone } = config
+  if (typeof timezone === 'string' && !isKnownTimeZone(timezone)) {
+    issues.push({
+      path: 'timezone',
+      message: `unknown time zone "${timezone}"`,
+    })
+  }
+  if (typeof currentMode === 'string' && !(currentMode in config.presets)) {
+    const available = Object.keys(config.presets).join(', ')
+    issues.push({
+      path: 'currentMode',
+      message: `refers to unknown preset "${currentMode}" (available: ${available})`,
+    })
+  }
+
+  const presets = config.presets as Record<string, Partial<ModePreset>>
+  for (const name of Object.keys(presets)) {
+    try {
+      getInheritanceChain(presets, name)
+    } catch (error) {
+      if (!(error instanceof PresetInheritanceError)) throw error
+      issues.push({ path: `presets.${name}.extends`, message: error.message })
+    }
+  }
+
+  const owners = new Map<string, string>()
+  for (const [name, preset] of Object.entries(presets)) {
+    for (const alias of preset.aliases ?? []) {
+      const owner = owners.get(alias)
+      if (alias in presets) {
+        issues.push({
+          path: `presets.${name}.aliases`,
+          message: `alias "${alias}" is the name of a preset`,
+        })
+      } else if (owner !== undefined) {
+        issues.push({
+          path: `presets.${name}.aliases`,
+          message: `alias "${alias}" is already an alias of preset "${owner}"`,
+        })
+      } else {
+        owners.set(alias, name)
+      }
+    }
+  }
+
+  for (const [name, preset] of Object.entries(presets)) {
+    if (preset.failoverMode !== undefined) {
+      issues.push(
+        ...validateModeReference(
+          `presets.${name}.failoverMode`,
+          preset.failoverMode,
+          presets,
+          owners
+        )
+      )
+    }
+  }
+
+  const schedule = config.schedule as ScheduleConfig | undefined
+  if (schedule) {
+    issues.push(...validateSchedule(schedule, presets, owners))
+  }
+  const budget = config.budget as BudgetConfig | undefined
+  if (budget) {
+    issues.push(
+      ...validateModeReference('budget.mode', budget.mode, presets, owners)
+    )
+    if (budget.daily === undefined && budget.monthly === undefined) {
+      issues.push({
+        path: 'budget',
+        message: 'must set a daily or monthly budget',
+      })
+    }
+  }
+  const usage = config.usage as UsageConfig | undefined
+  for (const [index, limit] of (usage?.limits ?? []).entries()) {
+    issues.push(
+      ...validateModeReference(
+        `usage.limits.${index}.mode`,
+        limit.mode,
+        presets,
+        owners
+      )
+    )
+  }
+  return issues
+}
+
+/**
+ * Finds preset names and aliases that are `/mode` subcommands.
+ *
+ * Such presets are valid, but `/mode <name>` runs the subcommand, so they
+ * are only reached with `/mode switch <name>` or the mode_switch tool. The
+ * issues are reported as warnings when the configuration is loaded.
+ *
+ * @param presets - The presets of the configuration
+ * @returns One issue per reserved name or alias, empty if there are none
+ * @example
+ * ```typescript
+ * findReservedModeNames({ list: { description: 'List', opencode: {} } })
+ * // Returns: [{ path: 'presets.list', message: '"list" is the /mode list subcommand; use /mode switch list to switch to it' }]
+ * ```
+ */
+export function findReservedModeNames(
+  presets: Record<string, Partial<ModePreset>>
+): ConfigValidationIssue[] {
+  const issues: ConfigValidationIssue[] = []
+  for (const [name, preset] of Object.entries(presets)) {
+    if (isReservedModeName(name)) {
+      issues.push({
+        path: `presets.${name}`,
+        message: `"${name}" is the /mode ${name.toLowerCase()} subcommand; use /mode switch ${name} to switch to it`,
+      })
+    }
+    for (const alias of preset.aliases ?? []) {
+      if (isReservedModeName(alias)) {
+        issues.push({
+          path: `presets.${name}.aliases`,
+          message: `alias "${alias}" is the /mode ${alias.toLowerCase()} subcommand; use /mode switch ${alias} to switch to it`,
+        })
+      }
+    }
+  }
+  return issues
+}
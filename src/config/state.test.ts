@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test'
+import { readdirSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { isObject } from './guards.ts'
+import { readJsonState, writeJsonState } from './state.ts'
+
+describe('state', () => {
+  const testDir = useTempConfigDir('state')
+  const statePath = join(testDir, 'state.json')
+
+  /**
+   * Accepts objects with a numeric `count`.
+   */
+  const isCounter = (value: unknown): value is { count: number } =>
+    isObject(value) && typeof value.count === 'number'
+
+  test('round-trips the state without leaving temporary files', async () => {
+    await writeJsonState(statePath, { count: 1 })
+
+    expect(await readJsonState(statePath, isCounter)).toEqual({ count: 1 })
+    expect(readdirSync(testDir)).toEqual(['state.json'])
+  })
+
+  test('is undefined for a missing file', async () => {
+    expect(await readJsonState(statePath, isCounter)).toBeUndefined()
+  })
+
+  test('is undefined for unparsable or unexpected content', async () => {
+    writeFileSync(statePath, '{ "count": ')
+    expect(await readJsonState(statePath, isCounter)).toBeUndefined()
+
+    writeFileSync(statePath, '{ "count": "1" }')
+    expect(await readJsonState(statePath, isCounter)).toBeUndefined()
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Persisted plugin state.
+ *
+ * The schedule, usage, spend and failover trackers each keep a small JSON
+ * document in the OpenCode configuration directory. State files are
+ * written atomically (see config/transaction), so a crash never leaves a
+ * truncated file behind that would be read as empty state.
+ *
+ * @module config/state
+ */
+
+import { readFile } from 'node:fs/promises'
+import { writeFileAtomic } from './transaction.ts'
+
+/**
+ * Reads a state file.
+ *
+ * @param path - Absolute path of the state file
+ * @param isState - Checks that the parsed content has the expected shape
+ * @returns Promise resolving to the state, or undefined if the file is
+ *   missing, unreadable or has an unexpected shape
+ * @example
+ * ```typescript
+ * const state = (await readJsonState(path, isUsageState)) ?? emptyState
+ * ```
+ */
+export async function readJsonState<T>(
+  path: string,
+  isState: (value: unknown) => value is T
+): Promise<T | undefined> {
+  try {
+    const state: unknown = JSON.parse(await readFile(path, 'utf8'))
+    return isState(state) ? state : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Writes a state file atomically.
+ *
+ * @param path - Absolute path of the state file
+ * @param state - The state, serialized as JSON
+ * @returns Promise resolving when the state is written
+ * @throws {Error} If the file cannot be written
+ */
+export async function writeJsonState(
+  path: string,
+  state: unknown
+): Promise<void> {
+  await writeFileAtomic(path, `${JSON.stringify(state, null, 2)}\n`)
+}
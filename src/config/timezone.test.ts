@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test'
+import { isKnownTimeZone, toLocalTime } from './timezone.ts'
+
+describe('timezone', () => {
+  describe('toLocalTime', () => {
+    test('reads the wall-clock time in a time zone', () => {
+      const at = new Date('2026-10-19T23:30:00Z')
+
+      expect(toLocalTime(at, 'UTC')).toEqual({
+        date: '2026-10-19',
+        weekday: 'mon',
+        minutes: 23 * 60 + 30,
+      })
+      expect(toLocalTime(at, 'Europe/Berlin')).toEqual({
+        date: '2026-10-20',
+        weekday: 'tue',
+        minutes: 90,
+      })
+    })
+  })
+
+  describe('isKnownTimeZone', () => {
+    test('accepts IANA time zones only', () => {
+      expect(isKnownTimeZone('Europe/Berlin')).toBe(true)
+      expect(isKnownTimeZone('Mars/Olympus')).toBe(false)
+    })
+  })
+})
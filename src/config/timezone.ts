@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Wall-clock time in the configured time zone.
+ *
+ * The schedule and the cost budget both work with calendar days, so they
+ * read them in the same time zone: the top-level `timezone` setting, or
+ * the system time zone when it is not set.
+ *
+ * @module config/timezone
+ */
+
+import type { Weekday } from './types.ts'
+
+/**
+ * A calendar day in a time zone.
+ */
+export interface LocalDay {
+  /** Calendar date, "YYYY-MM-DD" */
+  date: string
+  weekday: Weekday
+}
+
+/**
+ * Wall-clock time in a time zone.
+ */
+export interface LocalTime extends LocalDay {
+  /** Minutes since midnight */
+  minutes: number
+}
+
+/**
+ * Date formatters by time zone, reused as creating one is expensive.
+ */
+const formatters = new Map<string | undefined, Intl.DateTimeFormat>()
+
+/**
+ * Converts a date to wall-clock time in a time zone.
+ *
+ * @param at - The point in time
+ * @param timezone - IANA time zone (default: the system time zone)
+ * @returns The local date, weekday and time of day
+ * @example
+ * ```typescript
+ * toLocalTime(new Date('2026-10-19T23:30:00Z'), 'Europe/Berlin')
+ * // Returns: { date: '2026-10-20', weekday: 'tue', minutes: 90 }
+ * ```
+ */
+export function toLocalTime(at: Date, timezone: string | undefined): LocalTime {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timezone, formatter)
+  }
+  const parts = formatter.formatToParts(at)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? ''
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: part('weekday').toLowerCase() as Weekday,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  }
+}
+
+/**
+ * Checks if a time zone is known to the runtime.
+ *
+ * @param timezone - IANA time zone, e.g. "Europe/Berlin"
+ * @returns True if dates can be formatted in the time zone
+ */
+export function isKnownTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
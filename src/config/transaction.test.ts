@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { join } from 'node:path'
+import { TransactionError } from './errors.ts'
+import { commitFileWrites, writeFileAtomic } from './transaction.ts'
+
+describe('transaction', () => {
+  const testDir = '/tmp/opencode-agent-modes-transaction-test'
+  const firstPath = join(testDir, 'opencode.json')
+  const secondPath = join(testDir, 'agent-mode-switcher.json')
+  // A path below a regular file can never be written
+  const blockedPath = join(firstPath, 'oh-my-opencode.json')
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe('writeFileAtomic', () => {
+    test('writes the content and leaves no temporary file', async () => {
+      await writeFileAtomic(firstPath, '{ "model": "a" }')
+
+      expect(readFileSync(firstPath, 'utf8')).toBe('{ "model": "a" }')
+      expect(readdirSync(testDir)).toEqual(['opencode.json'])
+    })
+
+    test('creates missing parent directories', async () => {
+      const nestedPath = join(testDir, 'nested', 'opencode.json')
+      await writeFileAtomic(nestedPath, '{}')
+
+      expect(readFileSync(nestedPath, 'utf8')).toBe('{}')
+    })
+
+    test('preserves the permissions of an existing file', async () => {
+      writeFileSync(firstPath, '{}', { mode: 0o600 })
+      await writeFileAtomic(firstPath, '{ "model": "a" }')
+
+      expect(statSync(firstPath).mode & 0o777).toBe(0o600)
+    })
+  })
+
+  describe('commitFileWrites', () => {
+    test('writes all files', async () => {
+      await commitFileWrites([
+        { path: firstPath, content: 'first' },
+        { path: secondPath, content: 'second' },
+      ])
+
+      expect(readFileSync(firstPath, 'utf8')).toBe('first')
+      expect(readFileSync(secondPath, 'utf8')).toBe('second')
+    })
+
+    test('restores written files when a later write fails', async () => {
+      writeFileSync(firstPath, 'original')
+
+      const error = await commitFileWrites([
+        { path: secondPath, content: 'second' },
+        { path: firstPath, content: 'changed' },
+        { path: join(secondPath, 'blocked.json'), content: 'blocked' },
+      ]).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(TransactionError)
+      expect((error as TransactionError).rolledBack).toEqual([
+        firstPath,
+        secondPath,
+      ])
+      expect((error as TransactionError).restoreFailures).toEqual([])
+      expect(readFileSync(firstPath, 'utf8')).toBe('original')
+      // Files that did not exist before are removed again
+      expect(existsSync(secondPath)).toBe(false)
+    })
+
+    test('reports the file that failed', async () => {
+      writeFileSync(firstPath, 'original')
+
+      const error = await commitFileWrites([
+        { path: blockedPath, content: 'blocked' },
+      ]).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(TransactionError)
+      expect((error as TransactionError).failedPath).toBe(blockedPath)
+      expect((error as TransactionError).rolledBack).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Atomic, all-or-nothing writes of configuration files.
+ *
+ * Each file is written to a temporary file in the same directory, flushed
+ * to disk with fsync and renamed over the target, so readers never see a
+ * partially written file. When several files are written together and one
+ * of them fails, the files already written are restored to their previous
+ * content.
+ *
+ * @module config/transaction
+ */
+
+import { existsSync } from 'node:fs'
+import { mkdir, open, readFile, rename, rm, stat } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { TransactionError } from './errors.ts'
+
+/**
+ * A pending file write.
+ */
+export interface FileWrite {
+  /** Absolute path of the file */
+  path: string
+  /** Content to write */
+  content: string | Uint8Array
+}
+
+/**
+ * Writes a file atomically.
+ *
+ * The content is written to a temporary sibling file, fsynced and then
+ * renamed over the target. The permissions of an existing target are
+ * preserved, and missing parent directories are created.
+ *
+ * @param path - Absolute path of the file
+ * @param content - Content to write
+ * @throws {Error} If the file cannot be written
+ * @example
+ * ```typescript
+ * await writeFileAtomic('/home/me/.config/opencode/opencode.json', '{}')
+ * ```
+ */
+export async function writeFileAtomic(
+  path: string,
+  content: string | Uint8Array
+): Promise<void> {
+  const temp = `${path}.tmp-${process.pid}-${Date.now()}`
+  const mode = existsSync(path) ? (await stat(path)).mode : undefined
+
+  try {
+    await mkdir(dirname(path), { recursive: true })
+    const handle = await open(temp, 'w', mode)
+    try {
+      await handle.writeFile(content)
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+    await rename(temp, path)
+  } catch (error) {
+    await rm(temp, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Writes several files as a single all-or-nothing operation.
+ *
+ * Files are written one after another with {@link writeFileAtomic}. If
+ * any write fails, every file written so far is restored to its previous
+ * content (or removed if it did not exist before).
+ *
+ * @param writes - The files to write, in order
+ * @throws {TransactionError} If a write fails; already written files are rolled back
+ * @example
+ * ```typescript
+ * await commitFileWrites([
+ *   { path: opencodePath, content: opencodeContent },
+ *   { path: pluginPath, content: pluginContent },
+ * ])
+ * ```
+ */
+export async function commitFileWrites(writes: FileWrite[]): Promise<void> {
+  const committed: Array<{ path: string; original: Buffer | null }> = []
+
+  for (const write of writes) {
+    try {
+      const original = existsSync(write.path)
+        ? await readFile(write.path)
+        : null
+      await writeFileAtomic(write.path, write.content)
+      committed.push({ path: write.path, original })
+    } catch (error) {
+      const rolledBack: string[] = []
+      const restoreFailures: string[] = []
+
+      for (const { path, original } of committed.reverse()) {
+        try {
+          if (original === null) {
+            await rm(path, { force: true })
+          } else {
+            await writeFileAtomic(path, original)
+          }
+          rolledBack.push(path)
+        } catch {
+          restoreFailures.push(path)
+        }
+      }
+
+      throw new TransactionError(write.path, rolledBack, restoreFailures, error)
+    }
+  }
+}
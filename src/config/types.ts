@@ -33,20 +33,155 @@ export type HierarchicalPreset = Record<
  * Both opencode and oh-my-opencode use the same HierarchicalPreset type,
  * allowing them to have arbitrary nested structures that are handled
  * uniformly by recursive merge functions.
+ *
+ * A preset with `extends` only needs to specify the values that differ
+ * from its parent; `opencode` may then be omitted in the configuration
+ * file and is filled in when the preset is resolved.
  */
 export interface ModePreset {
+  /** Name of a preset this preset inherits from (see config/presets) */
+  extends?: string
   description: string
+  /** Alternative names of the preset (e.g. `perf`), not inherited */
+  aliases?: string[]
+  /** Mode (name or alias) to switch to when providers keep rate limiting */
+  failoverMode?: string
   model?: string
   opencode: HierarchicalPreset
-  'oh-my-opencode': HierarchicalPreset
+  'oh-my-opencode'?: HierarchicalPreset
+}
+
+/**
+ * Strategy used to apply the active preset to OpenCode.
+ *
+ * - `file`: rewrites opencode.json and oh-my-opencode.json on disk (default)
+ * - `config-hook`: injects the preset into the configuration OpenCode loads
+ *   at startup via the plugin `config` hook, leaving user files untouched
+ */
+export type ApplyStrategy = 'file' | 'config-hook'
+
+/**
+ * Agent tree of a preset: `opencode` agents or `oh-my-opencode` agents.
+ */
+export type PresetTarget = 'opencode' | 'oh-my-opencode'
+
+/**
+ * Day of the week, as used in schedule windows.
+ */
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'
+
+/**
+ * A recurring time window in which a mode is active.
+ */
+export interface ScheduleWindow {
+  /** Mode (name or alias) active during the window */
+  mode: string
+  /** Days the window starts on (default: every day) */
+  days?: Weekday[]
+  /** Start time of day, "HH:MM" */
+  start: string
+  /** End time of day, "HH:MM"; earlier than `start` to span midnight */
+  end: string
+}
+
+/**
+ * Time-based mode switching (see modes/schedule).
+ */
+export interface ScheduleConfig {
+  /** Mode active outside every window (default: keep the current mode) */
+  defaultMode?: string
+  /** Windows in order of precedence; the first active window wins */
+  windows: ScheduleWindow[]
+}
+
+/**
+ * What happens when a usage limit is reached.
+ *
+ * - `switch`: switches to the limit's mode (default)
+ * - `notify`: only shows a toast recommending the limit's mode
+ */
+export type UsageLimitAction = 'switch' | 'notify'
+
+/**
+ * A token limit within the usage window.
+ */
+export interface UsageLimit {
+  /** Provider whose tokens count (e.g. "anthropic"); omit to count all */
+  provider?: string
+  /** Input, output and reasoning tokens allowed within the window */
+  tokens: number
+  /** Mode (name or alias) to switch to, or recommend, at the limit */
+  mode: string
+  action?: UsageLimitAction
+}
+
+/**
+ * Token usage tracking (see usage/tracker).
+ */
+export interface UsageConfig {
+  /** Length of the rolling usage window in hours (default: 5) */
+  windowHours?: number
+  limits: UsageLimit[]
+}
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number
+  /** Price of output and reasoning tokens */
+  output: number
+  /** Price of cache reads (default: the input price) */
+  cacheRead?: number
+  /** Price of cache writes (default: the input price) */
+  cacheWrite?: number
+}
+
+/**
+ * Cost budget (see usage/budget).
+ */
+export interface BudgetConfig {
+  /** Budget per calendar day in USD */
+  daily?: number
+  /** Budget per calendar month in USD */
+  monthly?: number
+  /** Mode (name or alias) to switch to when a budget is exhausted */
+  mode: string
+  /** Prices by "provider/model", overriding the built-in pricing table */
+  pricing?: Record<string, ModelPrice>
+}
+
+/**
+ * Failover on provider rate-limit errors (see modes/failover).
+ */
+export interface FailoverConfig {
+  /** Consecutive rate-limit errors of a provider before failing over (default: 3) */
+  threshold?: number
+  /** Minutes after a failover until switching back is offered (default: 30) */
+  cooldownMinutes?: number
 }
 
 /**
  * Main configuration for the mode switcher plugin
  */
 export interface ModeSwitcherConfig {
+  /** JSON Schema reference used by editors for completion */
+  $schema?: string
   currentMode: string
   showToastOnStartup: boolean
+  applyStrategy?: ApplyStrategy
+  /** Number of configuration snapshots to keep (0 disables backups) */
+  backupRetention?: number
+  /** IANA time zone of the schedule and the budget (default: the system time zone) */
+  timezone?: string
+  /** Switch modes automatically by time of day */
+  schedule?: ScheduleConfig
+  /** Track token usage and act on limits */
+  usage?: UsageConfig
+  /** Track spend and switch modes when a budget is exhausted */
+  budget?: BudgetConfig
+  /** Switch to the preset's `failoverMode` on provider rate-limit errors */
+  failover?: FailoverConfig
   presets: Record<string, ModePreset>
 }
 
@@ -89,10 +224,21 @@ export interface OhMyOpencodeConfig {
 export const DEFAULT_ECONOMY_MODEL = 'opencode/glm-4.7-free'
 
 /**
- * Configuration file paths
+ * Default number of configuration snapshots kept for rollback
+ */
+export const DEFAULT_BACKUP_RETENTION = 10
+
+/**
+ * Default length of the token usage window in hours
+ */
+export const DEFAULT_USAGE_WINDOW_HOURS = 5
+
+/**
+ * Default number of consecutive rate-limit errors before failing over
+ */
+export const DEFAULT_FAILOVER_THRESHOLD = 3
+
+/**
+ * Default minutes after a failover until switching back is offered
  */
-export const CONFIG_PATHS = {
-  pluginConfig: '~/.config/opencode/agent-mode-switcher.json',
-  opencodeConfig: '~/.config/opencode/opencode.json',
-  ohMyOpencodeConfig: '~/.config/opencode/oh-my-opencode.json',
-} as const
+export const DEFAULT_FAILOVER_COOLDOWN_MINUTES = 30
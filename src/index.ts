@@ -8,41 +8,216 @@
  * @module index
  */
 
+import { basename } from 'node:path'
 import { tool } from '@opencode-ai/plugin'
 import type { Plugin } from '@opencode-ai/plugin'
-import { copyCommandFiles } from './config/index.ts'
-import { ModeManager } from './modes/index.ts'
+import type { OpencodeClient } from '@opencode-ai/sdk'
+import {
+  type CommandSyncResult,
+  type ModePreset,
+  copyCommandFiles,
+} from './config/index.ts'
+import {
+  ModeManager,
+  type ProviderErrorKind,
+  classifyErrorMessage,
+  classifySessionError,
+} from './modes/index.ts'
+
+/**
+ * Interval at which the mode schedule and the failover cooldown are
+ * evaluated.
+ */
+const CHECK_INTERVAL_MS = 60_000
+
+/**
+ * Switches to the scheduled mode if a schedule boundary was crossed,
+ * logging failures instead of throwing.
+ *
+ * @param modeManager - The mode manager
+ */
+async function runSchedule(modeManager: ModeManager): Promise<void> {
+  try {
+    await modeManager.applySchedule()
+  } catch (error) {
+    console.error(
+      '[agent-mode-switcher] Failed to apply mode schedule:',
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * Offers to switch back after a failover once its cooldown has expired,
+ * logging failures instead of throwing.
+ *
+ * @param modeManager - The mode manager
+ */
+async function runFailoverCooldown(modeManager: ModeManager): Promise<void> {
+  try {
+    await modeManager.checkFailoverCooldown()
+  } catch (error) {
+    console.error(
+      '[agent-mode-switcher] Failed to check failover cooldown:',
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * Runs the schedule and the failover cooldown check one after the other.
+ *
+ * @param modeManager - The mode manager
+ */
+async function runPeriodicChecks(modeManager: ModeManager): Promise<void> {
+  await runSchedule(modeManager)
+  await runFailoverCooldown(modeManager)
+}
+
+/**
+ * Counts a rate-limit error of a session, logging failures instead of
+ * throwing.
+ *
+ * @param modeManager - The mode manager
+ * @param sessionID - The session that failed
+ * @param kind - The kind of error, or null if it is not a rate limit
+ * @param attempt - The retry attempt, for retries
+ */
+async function recordProviderError(
+  modeManager: ModeManager,
+  sessionID: string,
+  kind: ProviderErrorKind | null,
+  attempt?: number
+): Promise<void> {
+  if (!kind) {
+    return
+  }
+  try {
+    await modeManager.recordProviderError(sessionID, kind, attempt)
+  } catch (error) {
+    console.error(
+      '[agent-mode-switcher] Failed to record provider error:',
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * Shows a toast about the slash command files changed during startup.
+ *
+ * Nothing is shown when the command files were already up to date.
+ *
+ * @param client - OpenCode client used for the toast
+ * @param result - Result of installing the command files
+ */
+function reportCommandChanges(
+  client: OpencodeClient,
+  result: CommandSyncResult
+): void {
+  const counts = [
+    [result.created.length, 'created'],
+    [result.updated.length, 'updated'],
+    [result.removed.length, 'removed'],
+  ] as const
+  const summary = counts
+    .filter(([count]) => count > 0)
+    .map(([count, action]) => `${count} ${action}`)
+  const lines = summary.length > 0 ? [`${summary.join(', ')}.`] : []
+  if (result.skipped.length > 0) {
+    const names = result.skipped.map((path) => basename(path)).join(', ')
+    lines.push(`Kept command files you modified: ${names}`)
+  }
+  if (lines.length === 0) {
+    return
+  }
+  client.tui
+    .showToast({
+      body: {
+        title: 'Slash Commands Updated',
+        message: lines.join(' '),
+        variant: 'info',
+        duration: 5000,
+      },
+    })
+    .catch(() => {})
+}
+
+/**
+ * Builds the `mode` argument of `mode_switch` from the loaded presets.
+ *
+ * With presets available, the argument is an enum of their names and
+ * aliases, and its description lists what each preset is for, so the LLM
+ * picks an existing mode instead of guessing. The plugin rebuilds the
+ * argument when presets are created, copied, renamed or deleted.
+ *
+ * @param presets - The presets currently loaded (empty if loading failed)
+ * @returns Schema of the `mode` argument
+ */
+function buildModeArg(presets: Record<string, ModePreset>) {
+  const [first, ...rest] = Object.keys(presets)
+  if (first === undefined) {
+    return tool.schema.string().describe('Name of the mode preset to switch to')
+  }
+  const names = [first, ...rest]
+  const aliases = names.flatMap((name) => presets[name]?.aliases ?? [])
+  const choices = names
+    .map((name) => {
+      const preset = presets[name]
+      const aka = preset?.aliases?.length
+        ? ` (aliases: ${preset.aliases.join(', ')})`
+        : ''
+      return `"${name}"${aka}: ${preset?.description}`
+    })
+    .join('; ')
+  return tool.schema
+    .enum([first, ...rest, ...aliases])
+    .describe(`Mode preset to switch to. ${choices}`)
+}
 
 /**
  * OpenCode Agent Mode Switcher Plugin.
  *
  * Provides tools for switching between agent mode presets (e.g., performance
  * vs economy) that configure which AI models are used for each agent type.
- * The plugin initializes on startup by loading configurations and copying
- * slash command files to the OpenCode command directory.
+ * The plugin initializes on startup by loading configurations and installing
+ * the `/mode` slash command in the OpenCode command directory, and then
+ * evaluates the mode schedule (if configured) every minute.
  *
  * @param params - Plugin initialization parameters
  * @param params.client - OpenCode client for SDK interactions
+ * @param params.directory - Project directory used to find project-local configuration
  * @returns Plugin object containing mode management tools
  *
  * @example
  * ```typescript
  * // Plugin is automatically loaded by OpenCode
- * // Users can then use slash commands:
- * // /mode-performance
- * // /mode-economy
- * // /mode-status
- * // /mode-list
+ * // Users can then use the slash command:
+ * // /mode performance
+ * // /mode economy
+ * // /mode status
+ * // /mode list
+ * // /mode rollback
  * ```
  */
-const modeSwitcherPlugin: Plugin = async ({ client }) => {
-  const modeManager = new ModeManager(client)
+const modeSwitcherPlugin: Plugin = async ({ client, directory }) => {
+  const modeManager = new ModeManager(client, directory)
+
+  // Presets offered as the choices of the mode_switch `mode` argument
+  let presets: Record<string, ModePreset> = {}
 
   // Initialize on startup with error handling
   try {
     await modeManager.initialize()
-    // Copy slash command files to ~/.config/opencode/command/
-    copyCommandFiles()
+    presets = await modeManager.getPresets()
+    // Install slash command files in ~/.config/opencode/command/
+    const commands = copyCommandFiles()
+    if (commands) {
+      reportCommandChanges(client, commands)
+    }
+    // Evaluate the schedule and the failover cooldown now and every
+    // minute; the timer must not keep the process alive
+    await runPeriodicChecks(modeManager)
+    setInterval(() => runPeriodicChecks(modeManager), CHECK_INTERVAL_MS).unref()
   } catch (error) {
     // Log error but don't block opencode startup
     console.error(
@@ -51,7 +226,119 @@ const modeSwitcherPlugin: Plugin = async ({ client }) => {
     )
   }
 
+  // Arguments of mode_switch, kept as one object so that `mode` can be
+  // rebuilt in place when presets change
+  const modeSwitchArgs = {
+    mode: buildModeArg(presets),
+    scope: tool.schema
+      .enum(['global', 'session'])
+      .optional()
+      .describe(
+        'Use "session" to switch only the current session immediately without restarting (default: "global")'
+      ),
+    dryRun: tool.schema
+      .boolean()
+      .optional()
+      .describe(
+        'Preview the changes to each config file as a unified diff without writing anything'
+      ),
+  }
+
+  /**
+   * Offers the current presets in the mode_switch `mode` argument after a
+   * tool created, copied, renamed or deleted a preset.
+   */
+  const refreshModeArg = async (): Promise<void> => {
+    try {
+      presets = await modeManager.getPresets()
+      modeSwitchArgs.mode = buildModeArg(presets)
+    } catch (error) {
+      console.error(
+        '[agent-mode-switcher] Failed to refresh the mode_switch presets:',
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+  }
+
   return {
+    /**
+     * Inject the active preset into the configuration loaded by OpenCode.
+     *
+     * Only has an effect when `applyStrategy` is set to `config-hook` in
+     * agent-mode-switcher.json; otherwise the preset is applied by
+     * rewriting the configuration files.
+     */
+    config: async (input) => {
+      try {
+        await modeManager.applyToLoadedConfig(input)
+      } catch (error) {
+        console.error(
+          '[agent-mode-switcher] Failed to apply mode to config:',
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    },
+
+    /**
+     * Forget session-scoped mode overrides when their session ends, track
+     * the token usage of completed assistant messages, and fail over on
+     * provider rate-limit errors and retries.
+     */
+    event: async ({ event }) => {
+      if (event.type === 'session.deleted') {
+        modeManager.clearSessionMode(event.properties.info.id)
+      }
+      if (
+        event.type === 'message.updated' &&
+        event.properties.info.role === 'assistant'
+      ) {
+        try {
+          await modeManager.recordUsage(event.properties.info)
+        } catch (error) {
+          console.error(
+            '[agent-mode-switcher] Failed to record token usage:',
+            error instanceof Error ? error.message : String(error)
+          )
+        }
+      }
+      if (
+        event.type === 'session.error' &&
+        event.properties.sessionID &&
+        event.properties.error
+      ) {
+        await recordProviderError(
+          modeManager,
+          event.properties.sessionID,
+          classifySessionError(event.properties.error)
+        )
+      }
+      if (
+        event.type === 'session.status' &&
+        event.properties.status.type === 'retry'
+      ) {
+        await recordProviderError(
+          modeManager,
+          event.properties.sessionID,
+          classifyErrorMessage(event.properties.status.message),
+          event.properties.status.attempt
+        )
+      }
+    },
+
+    /**
+     * Apply session-scoped mode overrides to incoming messages.
+     */
+    'chat.message': async (input, output) => {
+      try {
+        await modeManager.applySessionModel(input.sessionID, output.message)
+      } catch (error) {
+        console.error(
+          '[agent-mode-switcher] Failed to apply session mode:',
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    },
+
     tool: {
       /**
        * Switch to a different agent mode preset.
@@ -59,19 +346,22 @@ const modeSwitcherPlugin: Plugin = async ({ client }) => {
        * Updates the active mode configuration and applies it to both
        * opencode.json and oh-my-opencode.json files. The mode preset
        * determines which AI models are assigned to each agent type.
+       * With `scope: "session"`, only the current session is switched,
+       * immediately and without touching any files.
        *
-       * @param args.mode - Name of the mode preset to switch to (e.g., "performance", "economy")
+       * @param args.mode - Name of the mode preset to switch to; an enum of the loaded presets
+       * @param args.scope - "global" (default) or "session"
+       * @param args.dryRun - Preview file changes as unified diffs without writing
        * @returns Success or error message with details about the mode switch operation
        */
       mode_switch: tool({
         description: 'Switch agent mode to a specified preset',
-        args: {
-          mode: tool.schema
-            .string()
-            .describe('Name of the mode preset to switch to'),
-        },
-        async execute({ mode }) {
-          return await modeManager.switchMode(mode)
+        args: modeSwitchArgs,
+        async execute({ mode, scope, dryRun }, context) {
+          if (scope === 'session') {
+            return await modeManager.switchSessionMode(context.sessionID, mode)
+          }
+          return await modeManager.switchMode(mode, { dryRun })
         },
       }),
 
@@ -79,15 +369,248 @@ const modeSwitcherPlugin: Plugin = async ({ client }) => {
        * Display current agent mode and its configuration.
        *
        * Shows the currently active mode preset and the AI model assignments
-       * for all agent types in both OpenCode and Oh My OpenCode configurations.
+       * for all agent types in both OpenCode and Oh My OpenCode configurations,
+       * along with any session-scoped override for the calling session.
        *
        * @returns Current mode name and detailed configuration information
        */
       mode_status: tool({
         description: 'Show current agent mode and its configuration',
         args: {},
+        async execute(_args, context) {
+          return await modeManager.getStatus(context.sessionID)
+        },
+      }),
+
+      /**
+       * Create a new mode preset.
+       *
+       * Captures the current opencode.json and oh-my-opencode.json
+       * settings (or copies an existing mode) into a new preset in
+       * agent-mode-switcher.json.
+       *
+       * @param args.name - Name of the new mode
+       * @param args.description - Description of the new mode
+       * @param args.source - Existing mode to copy instead of the live configuration
+       * @returns Success or error message
+       */
+      mode_create: tool({
+        description:
+          'Create a new mode preset from the current configuration or an existing mode',
+        args: {
+          name: tool.schema.string().describe('Name of the new mode'),
+          description: tool.schema
+            .string()
+            .describe('Short description of the new mode'),
+          source: tool.schema
+            .string()
+            .optional()
+            .describe(
+              'Existing mode to copy; omit to capture the current opencode.json and oh-my-opencode.json settings'
+            ),
+        },
+        async execute({ name, description, source }) {
+          const result = await modeManager.createMode(name, description, source)
+          await refreshModeArg()
+          return result
+        },
+      }),
+
+      /**
+       * Set the model of a single agent in a mode preset.
+       *
+       * Updates one agent of the preset's `opencode` or `oh-my-opencode`
+       * section, creating missing groups on the agent path. With `apply`,
+       * the change is also written to the configuration files when the
+       * preset is the current mode.
+       *
+       * @param args.mode - Name of the mode preset to edit
+       * @param args.target - "opencode" or "oh-my-opencode"
+       * @param args.agent - Dot-separated agent path (e.g., "agents.oracle")
+       * @param args.model - Model to set
+       * @param args.variant - Variant to set
+       * @param args.properties - Other agent properties to set
+       * @param args.apply - Apply now if the preset is the current mode
+       * @returns Success or error message
+       */
+      mode_set: tool({
+        description:
+          'Set the model, variant or other properties of one agent in a mode preset',
+        args: {
+          mode: tool.schema
+            .string()
+            .describe('Name of the mode preset to edit'),
+          target: tool.schema
+            .enum(['opencode', 'oh-my-opencode'])
+            .describe('Agent section of the preset'),
+          agent: tool.schema
+            .string()
+            .describe(
+              'Dot-separated agent path, e.g. "build" or "agents.oracle"'
+            ),
+          model: tool.schema
+            .string()
+            .optional()
+            .describe('Model to set, e.g. "anthropic/claude-sonnet-4"'),
+          variant: tool.schema.string().optional().describe('Variant to set'),
+          properties: tool.schema
+            .record(tool.schema.string(), tool.schema.unknown())
+            .optional()
+            .describe(
+              'Other agent properties to set, e.g. { "temperature": 0.2 }'
+            ),
+          apply: tool.schema
+            .boolean()
+            .optional()
+            .describe(
+              'Write the change to the config files now if the preset is the current mode'
+            ),
+        },
+        async execute({
+          mode,
+          target,
+          agent,
+          model,
+          variant,
+          properties,
+          apply,
+        }) {
+          return await modeManager.setAgent(
+            mode,
+            target,
+            agent,
+            {
+              ...properties,
+              ...(model !== undefined && { model }),
+              ...(variant !== undefined && { variant }),
+            },
+            { apply }
+          )
+        },
+      }),
+
+      /**
+       * Create a copy of an existing mode preset.
+       *
+       * @param args.source - Mode to copy
+       * @param args.name - Name of the new mode
+       * @param args.description - Description of the new mode (default: the source's)
+       * @returns Success or error message
+       */
+      mode_copy: tool({
+        description: 'Duplicate an existing mode preset under a new name',
+        args: {
+          source: tool.schema.string().describe('Name of the mode to copy'),
+          name: tool.schema.string().describe('Name of the new mode'),
+          description: tool.schema
+            .string()
+            .optional()
+            .describe(
+              'Short description of the new mode; defaults to the description of the source mode'
+            ),
+        },
+        async execute({ source, name, description }) {
+          const result = await modeManager.copyMode(source, name, description)
+          await refreshModeArg()
+          return result
+        },
+      }),
+
+      /**
+       * Rename a mode preset.
+       *
+       * Updates `currentMode` and the `extends` references of other
+       * presets.
+       *
+       * @param args.name - Current name of the mode
+       * @param args.newName - New name of the mode
+       * @returns Success or error message
+       */
+      mode_rename: tool({
+        description: 'Rename a mode preset',
+        args: {
+          name: tool.schema.string().describe('Current name of the mode'),
+          newName: tool.schema.string().describe('New name of the mode'),
+        },
+        async execute({ name, newName }) {
+          const result = await modeManager.renameMode(name, newName)
+          await refreshModeArg()
+          return result
+        },
+      }),
+
+      /**
+       * Delete a mode preset.
+       *
+       * The current mode can only be deleted with a replacement mode,
+       * which is switched to in the same operation.
+       *
+       * @param args.name - Name of the mode to delete
+       * @param args.replacement - Mode to switch to when deleting the current mode
+       * @returns Success or error message
+       */
+      mode_delete: tool({
+        description: 'Delete a mode preset',
+        args: {
+          name: tool.schema.string().describe('Name of the mode to delete'),
+          replacement: tool.schema
+            .string()
+            .optional()
+            .describe(
+              'Mode to switch to; required when deleting the current mode'
+            ),
+        },
+        async execute({ name, replacement }) {
+          const result = await modeManager.deleteMode(name, replacement)
+          await refreshModeArg()
+          return result
+        },
+      }),
+
+      /**
+       * Roll back configuration files to an automatic snapshot.
+       *
+       * A snapshot of every affected file is taken before the plugin
+       * writes configuration files. Without arguments, the available
+       * snapshots are listed; with a snapshot ID, all files of that
+       * snapshot (including the plugin's `currentMode`) are restored.
+       *
+       * @param args.snapshot - Snapshot ID to restore (omit to list snapshots)
+       * @returns Snapshot list or restore result
+       */
+      mode_rollback: tool({
+        description:
+          'List configuration snapshots, or restore one to roll back a mode switch',
+        args: {
+          snapshot: tool.schema
+            .string()
+            .optional()
+            .describe(
+              'Snapshot ID to restore; omit to list available snapshots'
+            ),
+        },
+        async execute({ snapshot }) {
+          if (!snapshot) {
+            return await modeManager.listBackups()
+          }
+          return await modeManager.rollback(snapshot)
+        },
+      }),
+
+      /**
+       * Show spend against the cost budget.
+       *
+       * Reports today's and this month's spend with the configured daily
+       * and monthly budgets, and this month's spend by model.
+       *
+       * @returns Formatted spend report
+       */
+      mode_budget: tool({
+        description:
+          'Show spend today and this month against the cost budget, by model',
+        args: {},
         async execute() {
-          return await modeManager.getStatus()
+          return await modeManager.getBudget()
         },
       }),
 
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import {
+  type FailoverRecord,
+  addProviderFailure,
+  classifyErrorMessage,
+  classifySessionError,
+  getCooldownEnd,
+  readFailoverState,
+  writeFailoverState,
+} from './failover.ts'
+
+describe('failover', () => {
+  describe('classifyErrorMessage', () => {
+    test('recognizes provider error messages', () => {
+      expect(classifyErrorMessage('Overloaded')).toBe('overloaded')
+      expect(classifyErrorMessage('Rate limit reached for gpt-5')).toBe(
+        'rate-limit'
+      )
+      expect(classifyErrorMessage('You exceeded your current quota', 429)).toBe(
+        'quota'
+      )
+    })
+
+    test('falls back to the status code', () => {
+      expect(classifyErrorMessage('Error', 429)).toBe('rate-limit')
+      expect(classifyErrorMessage('Error', 529)).toBe('overloaded')
+    })
+
+    test('ignores other errors', () => {
+      expect(classifyErrorMessage('Invalid API key', 401)).toBeNull()
+    })
+  })
+
+  describe('classifySessionError', () => {
+    test('reads the response body of API errors', () => {
+      expect(
+        classifySessionError({
+          name: 'APIError',
+          data: {
+            message: 'Bad request',
+            statusCode: 400,
+            isRetryable: false,
+            responseBody: '{"error":{"code":"insufficient_quota"}}',
+          },
+        })
+      ).toBe('quota')
+    })
+
+    test('ignores authentication errors', () => {
+      expect(
+        classifySessionError({
+          name: 'ProviderAuthError',
+          data: { providerID: 'anthropic', message: 'rate limit' },
+        })
+      ).toBeNull()
+    })
+  })
+
+  describe('addProviderFailure', () => {
+    test('counts failures per provider up to the threshold', () => {
+      const first = addProviderFailure(
+        { failures: { openai: 1 } },
+        'anthropic',
+        { threshold: 2 }
+      )
+      const second = addProviderFailure(first.state, 'anthropic', {
+        threshold: 2,
+      })
+
+      expect(first).toEqual({
+        state: { failures: { openai: 1, anthropic: 1 } },
+        reached: false,
+      })
+      expect(second).toEqual({
+        state: { failures: { openai: 1 } },
+        reached: true,
+      })
+    })
+
+    test('defaults to 3 failures', () => {
+      expect(
+        addProviderFailure({ failures: { anthropic: 1 } }, 'anthropic').reached
+      ).toBe(false)
+      expect(
+        addProviderFailure({ failures: { anthropic: 2 } }, 'anthropic').reached
+      ).toBe(true)
+    })
+  })
+
+  test('getCooldownEnd defaults to 30 minutes', () => {
+    const record: FailoverRecord = {
+      provider: 'anthropic',
+      kind: 'overloaded',
+      from: 'performance',
+      to: 'economy',
+      at: 1_000,
+    }
+
+    expect(getCooldownEnd(record)).toBe(1_000 + 30 * 60_000)
+    expect(getCooldownEnd(record, { cooldownMinutes: 5 })).toBe(
+      1_000 + 5 * 60_000
+    )
+  })
+
+  describe('state file', () => {
+    const testDir = useTempConfigDir('failover')
+
+    test('round-trips the failover state', async () => {
+      expect(await readFailoverState()).toEqual({ failures: {} })
+
+      const state = {
+        failures: { anthropic: 2 },
+        active: {
+          provider: 'anthropic',
+          kind: 'rate-limit' as const,
+          from: 'performance',
+          to: 'economy',
+          at: 1_000,
+        },
+      }
+      await writeFailoverState(state)
+      expect(await readFailoverState()).toEqual(state)
+    })
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Failover on provider rate-limit errors.
+ *
+ * Session errors and retries are classified as rate limits, exhausted
+ * quotas or overloaded providers, and counted per provider until a
+ * response of that provider completes. When a provider reaches the
+ * failure threshold, the plugin switches to the `failoverMode` of the
+ * active preset. The failover is recorded in
+ * `agent-mode-switcher-failover.json`, and once its cooldown has expired
+ * switching back is offered.
+ *
+ * @module modes/failover
+ */
+
+import type { EventSessionError } from '@opencode-ai/sdk'
+import { isObject } from '../config/guards.ts'
+import { getFailoverStatePath } from '../config/paths.ts'
+import { readJsonState, writeJsonState } from '../config/state.ts'
+import {
+  DEFAULT_FAILOVER_COOLDOWN_MINUTES,
+  DEFAULT_FAILOVER_THRESHOLD,
+  type FailoverConfig,
+} from '../config/types.ts'
+
+/**
+ * Kind of provider error that triggers a failover.
+ *
+ * - `rate-limit`: too many requests in a short time
+ * - `quota`: the account's quota or credit is used up
+ * - `overloaded`: the provider lacks capacity
+ */
+export type ProviderErrorKind = 'rate-limit' | 'quota' | 'overloaded'
+
+/**
+ * Error reported by a `session.error` event.
+ */
+export type SessionError = NonNullable<EventSessionError['properties']['error']>
+
+/**
+ * A failover from one mode to another.
+ */
+export interface FailoverRecord {
+  /** Provider whose errors triggered the failover */
+  provider: string
+  kind: ProviderErrorKind
+  /** Mode active before the failover */
+  from: string
+  /** Mode switched to */
+  to: string
+  /** Time of the failover in milliseconds since the epoch */
+  at: number
+}
+
+/**
+ * Persisted failover state.
+ */
+export interface FailoverState {
+  /** Consecutive rate-limit errors by provider */
+  failures: Record<string, number>
+  /** The last failover, until switching back has been offered */
+  active?: FailoverRecord
+}
+
+/**
+ * Error messages of each kind, as worded by Anthropic, OpenAI, Google and
+ * OpenRouter. Quota comes first because OpenAI reports an exhausted quota
+ * as a 429 "rate limit" error.
+ */
+const ERROR_PATTERNS: [ProviderErrorKind, RegExp][] = [
+  [
+    'quota',
+    /insufficient_quota|exceeded your current quota|quota exceeded|credit balance|resource_exhausted/i,
+  ],
+  ['overloaded', /overloaded|over capacity|temporarily unavailable/i],
+  ['rate-limit', /rate.?limit|too many requests/i],
+]
+
+/**
+ * HTTP status codes of each kind, used when the message is not recognized.
+ */
+const STATUS_CODES: Record<number, ProviderErrorKind> = {
+  429: 'rate-limit',
+  529: 'overloaded',
+}
+
+/**
+ * Describes an error kind for messages, e.g. "anthropic is overloaded".
+ */
+const ERROR_KIND_LABELS: Record<ProviderErrorKind, string> = {
+  'rate-limit': 'is rate limiting',
+  quota: 'quota is exhausted',
+  overloaded: 'is overloaded',
+}
+
+/**
+ * Classifies a provider error message.
+ *
+ * @param message - The error message or response body
+ * @param statusCode - The HTTP status code, if known
+ * @returns The kind of error, or null for errors that don't trigger a failover
+ * @example
+ * ```typescript
+ * classifyErrorMessage('Overloaded', 529) // 'overloaded'
+ * classifyErrorMessage('Invalid API key', 401) // null
+ * ```
+ */
+export function classifyErrorMessage(
+  message: string,
+  statusCode?: number
+): ProviderErrorKind | null {
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))
+  if (match) {
+    return match[0]
+  }
+  return (statusCode !== undefined && STATUS_CODES[statusCode]) || null
+}
+
+/**
+ * Classifies the error of a `session.error` event.
+ *
+ * Only API errors and unknown errors can be rate limits; authentication
+ * errors, aborted messages and exceeded output lengths never are.
+ *
+ * @param error - The session error
+ * @returns The kind of error, or null for errors that don't trigger a failover
+ */
+export function classifySessionError(
+  error: SessionError
+): ProviderErrorKind | null {
+  switch (error.name) {
+    case 'APIError':
+      return classifyErrorMessage(
+        `${error.data.message}\n${error.data.responseBody ?? ''}`,
+        error.data.statusCode
+      )
+    case 'UnknownError':
+      return classifyErrorMessage(error.data.message)
+    default:
+      return null
+  }
+}
+
+/**
+ * Describes a provider error for messages.
+ *
+ * @param provider - The provider
+ * @param kind - The kind of error
+ * @returns The description, e.g. "anthropic is overloaded"
+ */
+export function describeProviderError(
+  provider: string,
+  kind: ProviderErrorKind
+): string {
+  return `${provider} ${ERROR_KIND_LABELS[kind]}`
+}
+
+/**
+ * Counts a rate-limit error of a provider.
+ *
+ * @param state - The failover state
+ * @param provider - The provider
+ * @param config - The failover configuration
+ * @returns The new state, and whether the provider reached the threshold;
+ *   the provider's count restarts when it does
+ */
+export function addProviderFailure(
+  state: FailoverState,
+  provider: string,
+  config: FailoverConfig = {}
+): { state: FailoverState; reached: boolean } {
+  const threshold = config.threshold ?? DEFAULT_FAILOVER_THRESHOLD
+  const { [provider]: previous = 0, ...others } = state.failures
+  const count = previous + 1
+  if (count >= threshold) {
+    return { state: { ...state, failures: others }, reached: true }
+  }
+  return {
+    state: { ...state, failures: { ...others, [provider]: count } },
+    reached: false,
+  }
+}
+
+/**
+ * Gets the time after which switching back from a failover is offered.
+ *
+ * @param record - The failover
+ * @param config - The failover configuration
+ * @returns The end of the cooldown in milliseconds since the epoch
+ */
+export function getCooldownEnd(
+  record: FailoverRecord,
+  config: FailoverConfig = {}
+): number {
+  const minutes = config.cooldownMinutes ?? DEFAULT_FAILOVER_COOLDOWN_MINUTES
+  return record.at + minutes * 60 * 1000
+}
+
+/**
+ * Reads the failover state.
+ *
+ * @returns Promise resolving to the state, empty if nothing was recorded
+ */
+export async function readFailoverState(): Promise<FailoverState> {
+  const state = await readJsonState(
+    getFailoverStatePath(),
+    (value): value is FailoverState =>
+      isObject(value) && isObject(value.failures)
+  )
+  // A missing or unreadable file starts without failures
+  return state ?? { failures: {} }
+}
+
+/**
+ * Writes the failover state.
+ *
+ * @param state - The failover state
+ * @returns Promise resolving when the state is written
+ */
+export async function writeFailoverState(state: FailoverState): Promise<void> {
+  await writeJsonState(getFailoverStatePath(), state)
+}
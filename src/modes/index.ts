@@ -1 +1,6 @@
-export { ModeManager } from './manager.ts'
+export {
+  type ProviderErrorKind,
+  classifyErrorMessage,
+  classifySessionError,
+} from './failover.ts'
+export { ModeManager, type SwitchModeOptions } from './manager.ts'
@@ -1,17 +1,28 @@
-import { beforeEach, describe, expect, test } from 'bun:test'
-import type { OpencodeClient } from '@opencode-ai/sdk'
+import { beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type {
+  AssistantMessage,
+  Config,
+  OpencodeClient,
+  UserMessage,
+} from '@opencode-ai/sdk'
+import { ConfigValidationError } from '../config/errors.ts'
+import type { ProjectModeSwitcherConfig } from '../config/layers.ts'
 import type {
   ModePreset,
   ModeSwitcherConfig,
   OhMyOpencodeConfig,
   OpencodeConfig,
 } from '../config/types.ts'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
 import { createMockOpencodeClient, sampleConfigs } from '../test-utils/mocks.ts'
 import {
   deepMergeModel,
   formatHierarchicalTree,
   hasDriftRecursive,
 } from '../test-utils/recursive-helpers.ts'
+import { ModeManager } from './manager.ts'
 
 /**
  * Creates a deep copy of the sample plugin config for isolated test use.
@@ -658,3 +669,794 @@ describe('ModeManager', () => {
     })
   })
 })
+
+describe('ModeManager with config files', () => {
+  const testDir = useTempConfigDir('manager')
+  const pluginPath = join(testDir, 'agent-mode-switcher.json')
+  const opencodePath = join(testDir, 'opencode.json')
+  const ohMyOpencodePath = join(testDir, 'oh-my-opencode.json')
+  let mockClient: OpencodeClient
+
+  /**
+   * Writes the sample configuration files and initializes a manager on them.
+   */
+  const createManager = async (
+    pluginConfig: ModeSwitcherConfig = clonePluginConfig()
+  ): Promise<ModeManager> => {
+    writeFileSync(pluginPath, JSON.stringify(pluginConfig, null, 2))
+    writeFileSync(
+      opencodePath,
+      JSON.stringify(sampleConfigs.opencodeConfig, null, 2)
+    )
+    writeFileSync(
+      ohMyOpencodePath,
+      JSON.stringify(sampleConfigs.ohMyOpencodeConfig, null, 2)
+    )
+    mockClient = createMockOpencodeClient()
+    const manager = new ModeManager(mockClient, join(testDir, 'project'))
+    await manager.initialize()
+    return manager
+  }
+
+  /**
+   * Reads a JSON file written by the manager.
+   */
+  const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf8'))
+
+  describe('switchMode', () => {
+    test('previews the switch as diffs without writing files', async () => {
+      const manager = await createManager()
+      const before = [pluginPath, opencodePath, ohMyOpencodePath].map((path) =>
+        readFileSync(path, 'utf8')
+      )
+
+      const result = await manager.switchMode('economy', { dryRun: true })
+
+      expect(result).toContain(`--- ${opencodePath}`)
+      expect(result).toContain('-  "model": "anthropic/claude-sonnet-4",')
+      expect(result).toContain('+  "model": "opencode/glm-4.7-free",')
+      expect(
+        [pluginPath, opencodePath, ohMyOpencodePath].map((path) =>
+          readFileSync(path, 'utf8')
+        )
+      ).toEqual(before)
+    })
+
+    test('writes every config file', async () => {
+      const manager = await createManager()
+
+      await manager.switchMode('economy')
+
+      expect(readJson(pluginPath).currentMode).toBe('economy')
+      expect(readJson(opencodePath).agent.build).toEqual({
+        model: 'opencode/glm-4.7-free',
+        mode: 'auto',
+        piyo: 'fuga',
+      })
+      expect(readJson(ohMyOpencodePath).agents.oracle.model).toBe(
+        'opencode/glm-4.7-free'
+      )
+    })
+
+    test('keeps agents of opencode.json that no preset sets', async () => {
+      const manager = await createManager()
+      const opencodeConfig = readJson(opencodePath)
+      opencodeConfig.agent.review = { model: 'openai/gpt-5', temperature: 0.1 }
+      writeFileSync(opencodePath, JSON.stringify(opencodeConfig, null, 2))
+
+      await manager.switchMode('economy')
+
+      const switched = readJson(opencodePath)
+      expect(switched.agent.review).toEqual({
+        model: 'openai/gpt-5',
+        temperature: 0.1,
+      })
+      expect(switched.agent.summary).toEqual({
+        model: 'anthropic/claude-haiku',
+      })
+      expect(switched.agent.build.model).toBe('opencode/glm-4.7-free')
+    })
+
+    test('loads and switches to a preset named like a /mode subcommand', async () => {
+      const config = clonePluginConfig()
+      config.presets.list = {
+        ...sampleConfigs.pluginConfig.presets.economy,
+        description: 'Named like a subcommand',
+      }
+      const warn = spyOn(console, 'warn').mockImplementation(() => {})
+
+      try {
+        const manager = await createManager(config)
+        const result = await manager.switchMode('list')
+
+        expect(warn).toHaveBeenCalledWith(
+          '[agent-mode-switcher] Warning: presets.list: "list" is the /mode list subcommand; use /mode switch list to switch to it'
+        )
+        expect(result).toContain('Switched to list mode')
+        expect(readJson(pluginPath).currentMode).toBe('list')
+      } finally {
+        warn.mockRestore()
+      }
+    })
+  })
+
+  describe('initialize', () => {
+    /**
+     * Writes a project-local configuration for the manager's project.
+     */
+    const writeProjectConfig = (config: ProjectModeSwitcherConfig) => {
+      const dir = join(testDir, 'project', '.opencode')
+      mkdirSync(dir, { recursive: true })
+      writeFileSync(
+        join(dir, 'agent-mode-switcher.json'),
+        JSON.stringify(config, null, 2)
+      )
+    }
+
+    test('resolves a global current mode defined by the project', async () => {
+      const config = clonePluginConfig()
+      config.currentMode = 'review'
+      writeProjectConfig({
+        presets: {
+          review: {
+            description: 'Review',
+            model: 'openai/gpt-5',
+            opencode: {},
+          },
+        },
+      })
+
+      const manager = await createManager(config)
+
+      expect(await manager.getCurrentMode()).toBe('review')
+    })
+
+    test('rejects a current mode that no layer defines', async () => {
+      const config = clonePluginConfig()
+      config.currentMode = 'review'
+
+      const error = await createManager(config).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConfigValidationError)
+      expect((error as ConfigValidationError).path).toBe(pluginPath)
+    })
+  })
+
+  describe('config-hook strategy', () => {
+    /**
+     * Creates a manager using the config-hook strategy.
+     */
+    const createHookManager = () => {
+      const config = clonePluginConfig()
+      config.applyStrategy = 'config-hook'
+      return createManager(config)
+    }
+
+    test('merges the current preset into the loaded config', async () => {
+      const manager = await createHookManager()
+      const opencodeBefore = readFileSync(opencodePath, 'utf8')
+      const ohMyOpencodeBefore = readFileSync(ohMyOpencodePath, 'utf8')
+      const loaded = {
+        model: 'opencode/glm-4.7-free',
+        theme: 'dark',
+        agent: { build: { model: 'opencode/glm-4.7-free', mode: 'primary' } },
+      } as Config
+
+      await manager.applyToLoadedConfig(loaded)
+
+      expect(loaded).toEqual({
+        model: 'anthropic/claude-sonnet-4',
+        theme: 'dark',
+        agent: {
+          build: {
+            model: 'anthropic/claude-sonnet-4',
+            mode: 'primary',
+            piyo: 'fuga',
+          },
+          plan: { model: 'anthropic/claude-sonnet-4' },
+        },
+      })
+      expect(readFileSync(opencodePath, 'utf8')).toBe(opencodeBefore)
+      expect(readFileSync(ohMyOpencodePath, 'utf8')).toBe(ohMyOpencodeBefore)
+    })
+
+    test('switches without touching the agent config files', async () => {
+      const manager = await createHookManager()
+      const opencodeBefore = readFileSync(opencodePath, 'utf8')
+      const ohMyOpencodeBefore = readFileSync(ohMyOpencodePath, 'utf8')
+
+      const result = await manager.switchMode('economy')
+
+      expect(result).toContain('Switched to economy mode')
+      expect(result).toContain(
+        'The oh-my-opencode settings of this preset are not applied'
+      )
+      expect(readJson(pluginPath).currentMode).toBe('economy')
+      expect(readFileSync(opencodePath, 'utf8')).toBe(opencodeBefore)
+      expect(readFileSync(ohMyOpencodePath, 'utf8')).toBe(ohMyOpencodeBefore)
+    })
+
+    test('warns in the status about unapplied oh-my-opencode settings', async () => {
+      const manager = await createHookManager()
+
+      expect(await manager.getStatus()).toContain(
+        'The oh-my-opencode settings of this preset are not applied'
+      )
+    })
+
+    test('does not warn with the file strategy', async () => {
+      const manager = await createManager()
+
+      expect(await manager.getStatus()).not.toContain('Warning:')
+    })
+  })
+
+  describe('createMode', () => {
+    test('captures the current configuration as a preset', async () => {
+      const manager = await createManager()
+
+      const result = await manager.createMode('snapshot', 'Snapshot')
+
+      expect(result).toContain('Created snapshot mode')
+      expect(readJson(pluginPath).presets.snapshot).toEqual({
+        description: 'Snapshot',
+        model: 'anthropic/claude-sonnet-4',
+        opencode: sampleConfigs.opencodeConfig.agent,
+        'oh-my-opencode': readJson(ohMyOpencodePath),
+      })
+    })
+
+    test('does not write a preset that fails validation', async () => {
+      const manager = await createManager()
+      writeFileSync(
+        opencodePath,
+        JSON.stringify({ agent: { build: 'anthropic/claude-sonnet-4' } })
+      )
+      const before = readFileSync(pluginPath, 'utf8')
+
+      const result = await manager.createMode('broken', 'Broken')
+
+      expect(result).toContain('Failed to create mode "broken"')
+      expect(result).toContain('presets.broken.opencode.build')
+      expect(readFileSync(pluginPath, 'utf8')).toBe(before)
+    })
+
+    test('refuses the name of a /mode subcommand', async () => {
+      const manager = await createManager()
+
+      const result = await manager.createMode('status', 'Status')
+
+      expect(result).toContain('reserved for the /mode status subcommand')
+      expect(readJson(pluginPath).presets.status).toBeUndefined()
+    })
+
+    test('copies a resolved preset from a source mode', async () => {
+      const manager = await createManager()
+
+      await manager.createMode('cheap', 'Cheap', 'economy')
+
+      expect(readJson(pluginPath).presets.cheap).toEqual({
+        ...sampleConfigs.pluginConfig.presets.economy,
+        description: 'Cheap',
+      })
+    })
+  })
+
+  describe('copyMode', () => {
+    test('duplicates a preset under a new name', async () => {
+      const manager = await createManager()
+
+      const result = await manager.copyMode('economy', 'economy-2')
+
+      expect(result).toContain('Created economy-2 mode')
+      expect(readJson(pluginPath).presets['economy-2']).toEqual(
+        sampleConfigs.pluginConfig.presets.economy
+      )
+    })
+  })
+
+  describe('deleteMode', () => {
+    test('deletes a preset that is not the current mode', async () => {
+      const manager = await createManager()
+
+      const result = await manager.deleteMode('economy')
+
+      expect(result).toContain('Deleted economy mode')
+      expect(Object.keys(readJson(pluginPath).presets)).toEqual(['performance'])
+    })
+
+    test('requires a replacement for the current mode', async () => {
+      const manager = await createManager()
+      const before = readFileSync(pluginPath, 'utf8')
+
+      const result = await manager.deleteMode('performance')
+
+      expect(result).toContain('it is the current mode')
+      expect(readFileSync(pluginPath, 'utf8')).toBe(before)
+    })
+
+    test('switches to the replacement of the current mode', async () => {
+      const manager = await createManager()
+
+      const result = await manager.deleteMode('performance', 'economy')
+
+      expect(result).toContain('Switched to economy mode')
+      const config = readJson(pluginPath)
+      expect(config.currentMode).toBe('economy')
+      expect(Object.keys(config.presets)).toEqual(['economy'])
+      expect(readJson(opencodePath).agent.build.model).toBe(
+        'opencode/glm-4.7-free'
+      )
+    })
+
+    test('refuses to delete a preset other presets extend', async () => {
+      const config = clonePluginConfig()
+      config.presets.cheap = {
+        extends: 'economy',
+        description: 'Cheap',
+        opencode: {},
+      }
+      const manager = await createManager(config)
+
+      const result = await manager.deleteMode('economy')
+
+      expect(result).toContain('it is extended by cheap')
+      expect(readJson(pluginPath).presets.economy).toBeDefined()
+    })
+
+    test('refuses to delete a preset the schedule refers to', async () => {
+      const config = clonePluginConfig()
+      config.presets.economy = {
+        ...sampleConfigs.pluginConfig.presets.economy,
+        aliases: ['eco'],
+      }
+      config.schedule = {
+        defaultMode: 'economy',
+        windows: [{ mode: 'eco', start: '09:00', end: '17:00' }],
+      }
+      const manager = await createManager(config)
+
+      const result = await manager.deleteMode('economy')
+
+      expect(result).toContain(
+        'it is used by schedule.defaultMode, schedule.windows[0].mode'
+      )
+      expect(readJson(pluginPath).presets.economy).toBeDefined()
+    })
+
+    test('refuses to delete a preset a usage limit refers to', async () => {
+      const config = clonePluginConfig()
+      config.usage = { limits: [{ tokens: 1000, mode: 'economy' }] }
+      const manager = await createManager(config)
+
+      const result = await manager.deleteMode('economy')
+
+      expect(result).toContain('it is used by usage.limits[0].mode')
+      expect(readJson(pluginPath).presets.economy).toBeDefined()
+    })
+
+    test('refuses to delete the mode of the budget', async () => {
+      const config = clonePluginConfig()
+      config.budget = { daily: 5, mode: 'economy' }
+      const manager = await createManager(config)
+
+      const result = await manager.deleteMode('economy')
+
+      expect(result).toContain('it is used by budget.mode')
+      expect(readJson(pluginPath).presets.economy).toBeDefined()
+    })
+
+    test('refuses to delete the failover mode of a preset', async () => {
+      const config = clonePluginConfig()
+      config.presets.performance = {
+        ...sampleConfigs.pluginConfig.presets.performance,
+        failoverMode: 'economy',
+      }
+      const manager = await createManager(config)
+
+      const result = await manager.deleteMode('economy')
+
+      expect(result).toContain('it is used by presets.performance.failoverMode')
+      expect(readJson(pluginPath).presets.economy).toBeDefined()
+    })
+  })
+
+  describe('renameMode', () => {
+    test('renames the current mode and the presets extending it', async () => {
+      const config = clonePluginConfig()
+      config.presets.fast = {
+        extends: 'performance',
+        description: 'Fast',
+        opencode: {},
+      }
+      const manager = await createManager(config)
+
+      const result = await manager.renameMode('performance', 'premium')
+
+      expect(result).toContain('Renamed performance mode to premium')
+      const renamed = readJson(pluginPath)
+      expect(renamed.currentMode).toBe('premium')
+      expect(renamed.presets.premium).toBeDefined()
+      expect(renamed.presets.performance).toBeUndefined()
+      expect(renamed.presets.fast.extends).toBe('premium')
+    })
+
+    test('refuses the name of a /mode subcommand', async () => {
+      const manager = await createManager()
+
+      const result = await manager.renameMode('economy', 'list')
+
+      expect(result).toContain('reserved for the /mode list subcommand')
+      expect(readJson(pluginPath).presets.economy).toBeDefined()
+      expect(readJson(pluginPath).presets.list).toBeUndefined()
+    })
+
+    test('refuses a name that is already taken', async () => {
+      const manager = await createManager()
+
+      const result = await manager.renameMode('performance', 'economy')
+
+      expect(result).toContain('mode "economy" already exists')
+      expect(readJson(pluginPath).currentMode).toBe('performance')
+    })
+
+    test('renames the modes named by the schedule', async () => {
+      const config = clonePluginConfig()
+      config.schedule = {
+        defaultMode: 'economy',
+        windows: [
+          { mode: 'performance', start: '09:00', end: '17:00' },
+          { mode: 'economy', start: '17:00', end: '18:00' },
+        ],
+      }
+      const manager = await createManager(config)
+
+      await manager.renameMode('economy', 'budget')
+
+      expect(readJson(pluginPath).schedule).toEqual({
+        defaultMode: 'budget',
+        windows: [
+          { mode: 'performance', start: '09:00', end: '17:00' },
+          { mode: 'budget', start: '17:00', end: '18:00' },
+        ],
+      })
+    })
+
+    test('renames the modes of the usage limits', async () => {
+      const config = clonePluginConfig()
+      config.usage = {
+        limits: [{ tokens: 1000, mode: 'economy', action: 'notify' }],
+      }
+      const manager = await createManager(config)
+
+      await manager.renameMode('economy', 'budget')
+
+      expect(readJson(pluginPath).usage.limits).toEqual([
+        { tokens: 1000, mode: 'budget', action: 'notify' },
+      ])
+    })
+
+    test('renames the mode of the budget', async () => {
+      const config = clonePluginConfig()
+      config.budget = { daily: 5, mode: 'economy' }
+      const manager = await createManager(config)
+
+      await manager.renameMode('economy', 'budget')
+
+      expect(readJson(pluginPath).budget).toEqual({ daily: 5, mode: 'budget' })
+    })
+
+    test('renames the failover modes of presets', async () => {
+      const config = clonePluginConfig()
+      config.presets.performance = {
+        ...sampleConfigs.pluginConfig.presets.performance,
+        failoverMode: 'economy',
+      }
+      const manager = await createManager(config)
+
+      await manager.renameMode('economy', 'budget')
+
+      expect(readJson(pluginPath).presets.performance.failoverMode).toBe(
+        'budget'
+      )
+    })
+  })
+
+  describe('setAgent', () => {
+    test('applies a change to the current mode with apply', async () => {
+      const manager = await createManager()
+
+      const result = await manager.setAgent(
+        'performance',
+        'oh-my-opencode',
+        'agents.oracle',
+        { model: 'openai/gpt-5', variant: 'low' },
+        { apply: true }
+      )
+
+      expect(result).toContain('oh-my-opencode.json: updated')
+      expect(
+        readJson(pluginPath).presets.performance['oh-my-opencode'].agents.oracle
+      ).toEqual({ model: 'openai/gpt-5', variant: 'low', piyo: 'fuga' })
+      expect(readJson(ohMyOpencodePath).agents.oracle).toMatchObject({
+        model: 'openai/gpt-5',
+        variant: 'low',
+      })
+    })
+
+    test('only updates the preset without apply', async () => {
+      const manager = await createManager()
+      const before = readFileSync(ohMyOpencodePath, 'utf8')
+
+      const result = await manager.setAgent(
+        'performance',
+        'oh-my-opencode',
+        'agents.oracle',
+        { model: 'openai/gpt-5' }
+      )
+
+      expect(result).toContain('applied on the next opencode start')
+      expect(
+        readJson(pluginPath).presets.performance['oh-my-opencode'].agents.oracle
+          .model
+      ).toBe('openai/gpt-5')
+      expect(readFileSync(ohMyOpencodePath, 'utf8')).toBe(before)
+    })
+
+    test('does not touch the files for another mode', async () => {
+      const manager = await createManager()
+      const before = readFileSync(opencodePath, 'utf8')
+
+      const result = await manager.setAgent(
+        'economy',
+        'opencode',
+        'review',
+        { model: 'opencode/glm-4.7-free' },
+        { apply: true }
+      )
+
+      expect(result).toContain('Takes effect when switching to economy mode')
+      expect(readJson(pluginPath).presets.economy.opencode.review).toEqual({
+        model: 'opencode/glm-4.7-free',
+      })
+      expect(readFileSync(opencodePath, 'utf8')).toBe(before)
+    })
+  })
+
+  describe('applySchedule', () => {
+    const monday = new Date('2026-10-19T10:00:00Z')
+
+    /**
+     * Creates a manager whose schedule selects economy all day.
+     */
+    const createScheduledManager = () => {
+      const config = clonePluginConfig()
+      config.timezone = 'UTC'
+      config.schedule = {
+        windows: [{ mode: 'economy', start: '00:00', end: '23:59' }],
+      }
+      return createManager(config)
+    }
+
+    test('switches once per schedule slot', async () => {
+      const manager = await createScheduledManager()
+
+      expect(await manager.applySchedule(monday)).toContain(
+        'Switched to economy mode'
+      )
+      await manager.switchMode('performance')
+
+      expect(await manager.applySchedule(monday)).toBeNull()
+      expect(readJson(pluginPath).currentMode).toBe('performance')
+    })
+
+    test('retries a switch that failed', async () => {
+      const manager = await createScheduledManager()
+      const opencode = readFileSync(opencodePath, 'utf8')
+      writeFileSync(opencodePath, '{ "model": ')
+
+      expect(await manager.applySchedule(monday)).toContain(
+        'Failed to switch to economy mode'
+      )
+      expect(readJson(pluginPath).currentMode).toBe('performance')
+
+      writeFileSync(opencodePath, opencode)
+      expect(await manager.applySchedule(monday)).toContain(
+        'Switched to economy mode'
+      )
+      expect(readJson(pluginPath).currentMode).toBe('economy')
+    })
+  })
+
+  /**
+   * Creates a completed assistant message of a session.
+   */
+  const createAssistantMessage = (
+    id: string,
+    overrides: Partial<AssistantMessage> = {}
+  ): AssistantMessage =>
+    ({
+      id,
+      sessionID: 'ses_1',
+      role: 'assistant',
+      providerID: 'anthropic',
+      modelID: 'claude-sonnet-4',
+      cost: 0,
+      time: { created: Date.now(), completed: Date.now() },
+      tokens: {
+        input: 600,
+        output: 0,
+        reasoning: 0,
+        cache: { read: 0, write: 0 },
+      },
+      ...overrides,
+    }) as AssistantMessage
+
+  describe('recordUsage', () => {
+    test('switches modes when a usage limit is reached', async () => {
+      const config = clonePluginConfig()
+      config.usage = {
+        limits: [{ provider: 'anthropic', tokens: 1000, mode: 'economy' }],
+      }
+      const manager = await createManager(config)
+
+      expect(
+        await manager.recordUsage(createAssistantMessage('msg_1'))
+      ).toEqual([])
+      expect(
+        await manager.recordUsage(createAssistantMessage('msg_1'))
+      ).toEqual([])
+      const [result] = await manager.recordUsage(
+        createAssistantMessage('msg_2')
+      )
+
+      expect(result).toContain('Switched to economy mode')
+      expect(readJson(pluginPath).currentMode).toBe('economy')
+    })
+
+    test('only recommends the mode of a notify limit', async () => {
+      const config = clonePluginConfig()
+      config.usage = {
+        limits: [{ tokens: 500, mode: 'economy', action: 'notify' }],
+      }
+      const manager = await createManager(config)
+
+      expect(
+        await manager.recordUsage(createAssistantMessage('msg_1'))
+      ).toEqual([])
+      expect(mockClient.tui.showToast).toHaveBeenCalledWith({
+        body: expect.objectContaining({ title: 'Token Limit Reached' }),
+      })
+      expect(readJson(pluginPath).currentMode).toBe('performance')
+    })
+
+    test('switches modes when the daily budget is exhausted', async () => {
+      const config = clonePluginConfig()
+      config.budget = {
+        daily: 1,
+        mode: 'economy',
+        pricing: { 'anthropic/claude-sonnet-4': { input: 1000, output: 0 } },
+      }
+      const manager = await createManager(config)
+
+      // 600 input tokens at $1000 per million tokens cost $0.60 each
+      expect(
+        await manager.recordUsage(createAssistantMessage('msg_1'))
+      ).toEqual([])
+      const [result] = await manager.recordUsage(
+        createAssistantMessage('msg_2')
+      )
+
+      expect(result).toContain('Switched to economy mode')
+      expect(readJson(pluginPath).currentMode).toBe('economy')
+    })
+  })
+
+  describe('switchSessionMode', () => {
+    /**
+     * Creates a user message of the build agent.
+     */
+    const createUserMessage = (): UserMessage =>
+      ({
+        agent: 'build',
+        model: { providerID: 'anthropic', modelID: 'claude-sonnet-4' },
+      }) as UserMessage
+
+    test('overrides the model of the session only', async () => {
+      const manager = await createManager()
+      const pluginBefore = readFileSync(pluginPath, 'utf8')
+
+      const result = await manager.switchSessionMode('ses_1', 'economy')
+      const inSession = createUserMessage()
+      const elsewhere = createUserMessage()
+      await manager.applySessionModel('ses_1', inSession)
+      await manager.applySessionModel('ses_2', elsewhere)
+
+      expect(result).toContain('Switched this session to economy mode')
+      expect(inSession.model).toEqual({
+        providerID: 'opencode',
+        modelID: 'glm-4.7-free',
+      })
+      expect(elsewhere.model).toEqual(createUserMessage().model)
+      expect(readFileSync(pluginPath, 'utf8')).toBe(pluginBefore)
+      expect(await manager.getStatus('ses_1')).toContain(
+        'Session mode: economy (this session only)'
+      )
+    })
+
+    test('forgets the override of a deleted session', async () => {
+      const manager = await createManager()
+      await manager.switchSessionMode('ses_1', 'economy')
+
+      manager.clearSessionMode('ses_1')
+      const message = createUserMessage()
+      await manager.applySessionModel('ses_1', message)
+
+      expect(message.model).toEqual(createUserMessage().model)
+    })
+
+    test('rejects an unknown mode', async () => {
+      const manager = await createManager()
+
+      const result = await manager.switchSessionMode('ses_1', 'turbo')
+
+      expect(result).toContain('Mode "turbo" not found')
+    })
+  })
+
+  describe('recordProviderError', () => {
+    /**
+     * Creates a manager whose current preset fails over to economy, with
+     * ses_1 attributed to anthropic.
+     */
+    const createFailoverManager = async (): Promise<ModeManager> => {
+      const config = clonePluginConfig()
+      config.presets.performance = {
+        ...sampleConfigs.pluginConfig.presets.performance,
+        failoverMode: 'economy',
+      }
+      const manager = await createManager(config)
+      await manager.recordUsage(createAssistantMessage('msg_1'))
+      return manager
+    }
+
+    test('counts the retries of one request once', async () => {
+      const manager = await createFailoverManager()
+
+      for (const attempt of [1, 2, 3, 4]) {
+        expect(
+          await manager.recordProviderError('ses_1', 'rate-limit', attempt)
+        ).toBeNull()
+      }
+      expect(
+        await manager.recordProviderError('ses_1', 'rate-limit')
+      ).toBeNull()
+
+      expect(readJson(pluginPath).currentMode).toBe('performance')
+    })
+
+    test('fails over and overrides the failing session', async () => {
+      const manager = await createFailoverManager()
+
+      // Three failing requests: two retried, one failing at once
+      await manager.recordProviderError('ses_1', 'rate-limit', 1)
+      await manager.recordProviderError('ses_1', 'rate-limit')
+      await manager.recordProviderError('ses_1', 'rate-limit', 1)
+      await manager.recordProviderError('ses_1', 'rate-limit', 2)
+      await manager.recordProviderError('ses_1', 'rate-limit')
+      const result = await manager.recordProviderError('ses_1', 'rate-limit')
+
+      expect(result).toContain('Switched to economy mode')
+      expect(readJson(pluginPath).currentMode).toBe('economy')
+      const message = {
+        agent: 'build',
+        model: { providerID: 'anthropic', modelID: 'claude-sonnet-4' },
+      } as UserMessage
+      await manager.applySessionModel('ses_1', message)
+      expect(message.model).toEqual({
+        providerID: 'opencode',
+        modelID: 'glm-4.7-free',
+      })
+    })
+  })
+})
@@ -1,18 +1,309 @@
-import type { OpencodeClient } from '@opencode-ai/sdk'
+import { basename } from 'node:path'
+import type {
+  AssistantMessage,
+  Config,
+  OpencodeClient,
+  UserMessage,
+} from '@opencode-ai/sdk'
+import {
+  type SnapshotManifest,
+  createSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+} from '../config/backup.ts'
+import { createUnifiedDiff } from '../config/diff.ts'
+import { ConfigValidationError, TransactionError } from '../config/errors.ts'
 import { isObject } from '../config/guards.ts'
-import { initializeConfig } from '../config/initializer.ts'
 import {
+  buildPresetFromCurrentConfig,
+  initializeConfig,
+} from '../config/initializer.ts'
+import {
+  type ConfigLayer,
+  type ConfigLayers,
+  type ProjectModeSwitcherConfig,
+  getValueSource,
+  mergeConfigLayers,
+} from '../config/layers.ts'
+import {
+  type FilePreview,
+  commitFilePreviews,
+  findProjectPluginConfigPath,
   loadOhMyOpencodeConfig,
   loadOpencodeConfig,
-  saveOhMyOpencodeConfig,
-  saveOpencodeConfig,
-  savePluginConfig,
+  loadProjectPluginConfig,
+  previewOhMyOpencodeConfig,
+  previewOpencodeConfig,
+  previewPluginConfig,
+  previewProjectPluginConfig,
 } from '../config/loader.ts'
+import { withConfigLock } from '../config/lock.ts'
+import { getPluginConfigPath } from '../config/paths.ts'
+import {
+  findDependentPresets,
+  getInheritanceChain,
+  getPresetAliases,
+  renamePreset,
+  resolvePreset,
+  resolvePresets,
+  setAgentSettings,
+} from '../config/presets.ts'
+import {
+  findReservedModeNames,
+  isReservedModeName,
+  validatePluginConfig,
+  validatePluginConfigStructure,
+} from '../config/schema.ts'
 import type {
+  ApplyStrategy,
+  BudgetConfig,
   HierarchicalPreset,
   ModePreset,
   ModeSwitcherConfig,
+  ModelConfig,
+  OhMyOpencodeConfig,
+  OpencodeConfig,
+  PresetTarget,
+  ScheduleConfig,
+  UsageConfig,
 } from '../config/types.ts'
+import { DEFAULT_BACKUP_RETENTION } from '../config/types.ts'
+import {
+  addSpend,
+  getSpendSummary,
+  readSpendState,
+  updateExhaustedBudgets,
+  writeSpendState,
+} from '../usage/budget.ts'
+import { calculateCost } from '../usage/pricing.ts'
+import {
+  type UsageLimitStatus,
+  type UsageRecord,
+  addUsageRecord,
+  getLimitStatus,
+  getUsageWindowStart,
+  readUsageState,
+  toUsageRecord,
+  updateReachedLimits,
+  writeUsageState,
+} from '../usage/tracker.ts'
+import {
+  type FailoverRecord,
+  type ProviderErrorKind,
+  addProviderFailure,
+  describeProviderError,
+  getCooldownEnd,
+  readFailoverState,
+  writeFailoverState,
+} from './failover.ts'
+import { type ModeNameMatch, matchModeName } from './matcher.ts'
+import {
+  formatScheduleTime,
+  getNextScheduleChange,
+  getScheduleSlot,
+  readAppliedScheduleSlot,
+  writeAppliedScheduleSlot,
+} from './schedule.ts'
+
+/**
+ * Options for {@link ModeManager.switchMode}.
+ */
+export interface SwitchModeOptions {
+  /** Preview the file changes as unified diffs without writing anything */
+  dryRun?: boolean
+  /** Why the mode is switched (e.g. "schedule"), shown in the toast and stored with the snapshot */
+  reason?: string
+}
+
+/**
+ * Result of {@link ModeManager.switchMode} before formatting.
+ */
+interface SwitchOutcome {
+  /** True if the configuration files were switched */
+  switched: boolean
+  /** Message describing the switch, its preview or its failure */
+  message: string
+}
+
+/**
+ * Allowed mode names. Names are passed as slash command arguments
+ * (`/mode <name>`), so they are restricted to a portable character set.
+ */
+const MODE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/
+
+/**
+ * Options for {@link ModeManager.setAgent}.
+ */
+export interface SetAgentOptions {
+  /** Apply the change to the configuration files now if the mode is active */
+  apply?: boolean
+}
+
+/**
+ * A configuration file planned to be written.
+ */
+interface PlannedFile {
+  /** File label used in result messages (e.g., "opencode.json") */
+  label: string
+  /** Rendered write, or null if the file is skipped */
+  preview: FilePreview | null
+  /** Reason shown when the file is skipped (default: not found) */
+  skipped?: string
+}
+
+/**
+ * Removes a mode from a configuration layer.
+ *
+ * @param layer - The configuration layer
+ * @param modeName - The mode to remove
+ * @param replacementMode - New `currentMode` if it is the removed mode
+ * @returns The updated layer; the input is not modified
+ * @private
+ */
+function removeModeFromLayer(
+  layer: ProjectModeSwitcherConfig,
+  modeName: string,
+  replacementMode: string | undefined
+): ProjectModeSwitcherConfig {
+  const updated = { ...layer }
+  if (layer.presets && modeName in layer.presets) {
+    const { [modeName]: _removed, ...presets } = layer.presets
+    updated.presets = presets
+  }
+  if (layer.currentMode === modeName && replacementMode !== undefined) {
+    updated.currentMode = replacementMode
+  }
+  return updated
+}
+
+/**
+ * Renames a mode in a configuration layer, including `currentMode`, the
+ * `extends` and `failoverMode` references of presets and the modes named
+ * by the schedule, the usage limits and the budget.
+ *
+ * @param layer - The configuration layer
+ * @param oldName - Current name of the mode
+ * @param newName - New name of the mode
+ * @returns The updated layer; the input is not modified
+ * @private
+ */
+function renameModeInLayer(
+  layer: ProjectModeSwitcherConfig,
+  oldName: string,
+  newName: string
+): ProjectModeSwitcherConfig {
+  const rename = (mode: string) => (mode === oldName ? newName : mode)
+  const updated = { ...layer }
+  if (layer.presets) {
+    updated.presets = Object.fromEntries(
+      Object.entries(renamePreset(layer.presets, oldName, newName)).map(
+        ([name, preset]) => [
+          name,
+          preset.failoverMode === oldName
+            ? { ...preset, failoverMode: newName }
+            : preset,
+        ]
+      )
+    )
+  }
+  if (layer.currentMode === oldName) {
+    updated.currentMode = newName
+  }
+  if (layer.schedule) {
+    const { defaultMode, windows } = layer.schedule
+    updated.schedule = {
+      ...layer.schedule,
+      ...(defaultMode !== undefined && { defaultMode: rename(defaultMode) }),
+      windows: windows.map((window) => ({
+        ...window,
+        mode: rename(window.mode),
+      })),
+    }
+  }
+  if (layer.usage) {
+    updated.usage = {
+      ...layer.usage,
+      limits: layer.usage.limits.map((limit) => ({
+        ...limit,
+        mode: rename(limit.mode),
+      })),
+    }
+  }
+  if (layer.budget) {
+    updated.budget = { ...layer.budget, mode: rename(layer.budget.mode) }
+  }
+  return updated
+}
+
+/**
+ * Lists the settings that refer to a mode by name or alias, other than
+ * `currentMode` and `extends`.
+ *
+ * @param config - The effective configuration
+ * @param names - Name and aliases of the mode
+ * @returns Paths of the referring settings, e.g. `schedule.defaultMode`
+ * @private
+ */
+function findModeReferences(
+  config: ModeSwitcherConfig,
+  names: string[]
+): string[] {
+  const references: string[] = []
+  const { schedule } = config
+  if (schedule?.defaultMode && names.includes(schedule.defaultMode)) {
+    references.push('schedule.defaultMode')
+  }
+  schedule?.windows.forEach((window, index) => {
+    if (names.includes(window.mode)) {
+      references.push(`schedule.windows[${index}].mode`)
+    }
+  })
+  config.usage?.limits.forEach((limit, index) => {
+    if (names.includes(limit.mode)) {
+      references.push(`usage.limits[${index}].mode`)
+    }
+  })
+  if (config.budget && names.includes(config.budget.mode)) {
+    references.push('budget.mode')
+  }
+  for (const [name, preset] of Object.entries(config.presets)) {
+    if (preset.failoverMode && names.includes(preset.failoverMode)) {
+      references.push(`presets.${name}.failoverMode`)
+    }
+  }
+  return references
+}
+
+/**
+ * Formats the error for a requested mode that matches no preset.
+ *
+ * @param requestedMode - The requested mode name
+ * @param match - Result of matching the name against the presets
+ * @param names - Names of the available presets
+ * @returns The error message, suggesting the closest presets if any
+ * @private
+ */
+function formatUnknownMode(
+  requestedMode: string,
+  match: ModeNameMatch,
+  names: string[]
+): string {
+  if (match.suggestions.length > 0) {
+    return `Mode "${requestedMode}" is ambiguous. Did you mean: ${match.suggestions.join(', ')}?`
+  }
+  return `Mode "${requestedMode}" not found. Available modes: ${names.join(', ')}`
+}
+
+/**
+ * Formats an amount of money.
+ *
+ * @param amount - Amount in USD
+ * @returns The amount, e.g. "$3.21"
+ * @private
+ */
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
 
 /**
  * Checks if a value is a leaf node (has a model field).
@@ -120,6 +411,59 @@ function hasDriftRecursive(
   return false
 }
 
+/**
+ * Resolves the model a preset assigns to a given agent.
+ *
+ * Lookup order:
+ * 1. `opencode.<agent>.model`
+ * 2. `oh-my-opencode.agents.<agent>.model`
+ * 3. The preset's global `model`
+ *
+ * @param preset - The mode preset to look up
+ * @param agent - Agent name (e.g., "build", "Sisyphus")
+ * @returns The model string in `provider/model` format, or undefined if none applies
+ * @private
+ */
+function resolveAgentModel(
+  preset: ModePreset,
+  agent: string | undefined
+): string | undefined {
+  if (agent) {
+    const opencodeAgent = preset.opencode?.[agent]
+    if (isObject(opencodeAgent) && isLeafNode(opencodeAgent)) {
+      return opencodeAgent.model as string
+    }
+
+    const ohMyAgents = preset['oh-my-opencode']?.agents
+    const ohMyAgent = isObject(ohMyAgents) ? ohMyAgents[agent] : undefined
+    if (isObject(ohMyAgent) && isLeafNode(ohMyAgent)) {
+      return ohMyAgent.model as string
+    }
+  }
+
+  return preset.model
+}
+
+/**
+ * Splits a `provider/model` string into its provider and model IDs.
+ *
+ * @param model - Model string such as "anthropic/claude-sonnet-4"
+ * @returns Provider and model IDs, or null if the string has no provider prefix
+ * @private
+ */
+function parseModelString(
+  model: string
+): { providerID: string; modelID: string } | null {
+  const separator = model.indexOf('/')
+  if (separator <= 0 || separator === model.length - 1) {
+    return null
+  }
+  return {
+    providerID: model.slice(0, separator),
+    modelID: model.slice(separator + 1),
+  }
+}
+
 /**
  * Recursively formats hierarchical configuration as a tree string.
  *
@@ -129,12 +473,16 @@ function hasDriftRecursive(
  *
  * @param preset - The hierarchical preset to format
  * @param indent - Indentation string for current depth (default: '  ')
+ * @param annotate - Optional callback returning a suffix for a leaf at the given path
+ * @param path - Path of `preset` passed to `annotate` (default: [])
  * @returns Multi-line string representation of the configuration tree
  * @private
  */
 function formatHierarchicalTree(
   preset: HierarchicalPreset,
-  indent = '  '
+  indent = '  ',
+  annotate?: (path: string[]) => string,
+  path: string[] = []
 ): string {
   const lines: string[] = []
 
@@ -148,11 +496,17 @@ function formatHierarchicalTree(
         .map((k) => `${k}: ${JSON.stringify(value[k])}`)
         .join(', ')
       const extra = otherProps ? ` [${otherProps}]` : ''
-      lines.push(`${indent}${key}: ${value.model}${variant}${extra}`)
+      const origin = annotate ? annotate([...path, key]) : ''
+      lines.push(`${indent}${key}: ${value.model}${variant}${extra}${origin}`)
     } else {
       lines.push(`${indent}${key}:`)
       lines.push(
-        formatHierarchicalTree(value as HierarchicalPreset, `${indent}  `)
+        formatHierarchicalTree(
+          value as HierarchicalPreset,
+          `${indent}  `,
+          annotate,
+          [...path, key]
+        )
       )
     }
   }
@@ -175,6 +529,9 @@ function formatHierarchicalTree(
  * - `~/.config/opencode/opencode.json` (OpenCode agents)
  * - `~/.config/opencode/oh-my-opencode.json` (oh-my-opencode agents)
  *
+ * A project-local `.opencode/agent-mode-switcher.json` is layered over
+ * the global plugin configuration when present.
+ *
  * @example
  * ```typescript
  * const manager = new ModeManager(client);
@@ -192,14 +549,48 @@ function formatHierarchicalTree(
 export class ModeManager {
   private config: ModeSwitcherConfig | null = null
 
-  constructor(private readonly client: OpencodeClient) {}
+  /** Raw global and project configuration layers behind {@link config} */
+  private layers: ConfigLayers | null = null
+
+  /** Origin layer of each value in {@link config} */
+  private sources = new Map<string, ConfigLayer>()
+
+  /**
+   * Session-scoped mode overrides, keyed by session ID.
+   * Held in memory only, so they never outlive the OpenCode process.
+   */
+  private readonly sessionModes = new Map<string, string>()
+
+  /**
+   * Provider of the latest assistant message of each session, used to
+   * attribute session errors to a provider.
+   */
+  private readonly sessionProviders = new Map<string, string>()
+
+  /**
+   * Sessions whose failing request has already been counted as a provider
+   * error, so retries of one stalled request count once.
+   */
+  private readonly failingSessions = new Set<string>()
+
+  /**
+   * @param client - OpenCode client used for toast notifications
+   * @param directory - Project directory used to find the project-local
+   *   configuration (default: current working directory)
+   */
+  constructor(
+    private readonly client: OpencodeClient,
+    private readonly directory: string = process.cwd()
+  ) {}
 
   /**
    * Initializes the mode manager and loads configuration.
    *
    * This method should be called before using any other manager methods.
    * It loads or creates the plugin configuration file, ensuring all
-   * required presets are available.
+   * required presets are available, and applies the current mode while
+   * holding the configuration lock. Presets named after a `/mode`
+   * subcommand are reported as warnings.
    *
    * @throws {Error} If configuration initialization fails
    * @example
@@ -209,8 +600,14 @@ export class ModeManager {
    * ```
    */
   async initialize(): Promise<void> {
-    this.config = await initializeConfig()
-    await this.applyCurrentModeIfNeeded()
+    // Another instance may be applying the mode at the same time
+    await withConfigLock(async () => {
+      const config = await this.loadConfig()
+      for (const { path, message } of findReservedModeNames(config.presets)) {
+        console.warn(`[agent-mode-switcher] Warning: ${path}: ${message}`)
+      }
+      await this.applyCurrentModeIfNeeded()
+    })
   }
 
   /**
@@ -225,11 +622,358 @@ export class ModeManager {
    */
   private async ensureConfig(): Promise<ModeSwitcherConfig> {
     if (!this.config) {
-      this.config = await initializeConfig()
+      return this.loadConfig()
+    }
+    return this.config
+  }
+
+  /**
+   * Loads the global configuration and the project-local layer (if any)
+   * and merges them into the effective configuration.
+   *
+   * The project layer is `.opencode/agent-mode-switcher.json`, found by
+   * walking up from the project directory. Its values are deep-merged
+   * over the global configuration.
+   *
+   * @returns Promise resolving to the effective configuration
+   * @throws {ConfigValidationError} If a layer does not match the JSON Schema
+   * @throws {Error} If configuration loading fails
+   * @private
+   */
+  private async loadConfig(): Promise<ModeSwitcherConfig> {
+    const global = await initializeConfig()
+    const projectPath = findProjectPluginConfigPath(this.directory)
+    const project = projectPath
+      ? await loadProjectPluginConfig(projectPath)
+      : null
+
+    this.layers = { global, project, projectPath }
+
+    // The structure of the global layer is validated on load; references
+    // to presets are checked on the merged configuration
+    const { config } = mergeConfigLayers(this.layers)
+    const issues = validatePluginConfig(config)
+    if (issues.length > 0) {
+      throw new ConfigValidationError(
+        projectPath ?? getPluginConfigPath(),
+        issues
+      )
+    }
+    return this.refreshMergedConfig()
+  }
+
+  /**
+   * Recomputes the effective configuration from the current layers.
+   *
+   * Presets are resolved against their `extends` chain, so every other
+   * method sees complete presets.
+   *
+   * @returns The effective configuration
+   * @throws {PresetInheritanceError} If an `extends` chain cannot be resolved
+   * @private
+   */
+  private refreshMergedConfig(): ModeSwitcherConfig {
+    if (!this.layers) {
+      throw new Error('Configuration layers are not loaded')
     }
+    const merged = mergeConfigLayers(this.layers)
+    this.config = {
+      ...merged.config,
+      presets: resolvePresets(merged.config.presets),
+    }
+    this.sources = merged.sources
     return this.config
   }
 
+  /**
+   * Ensures the raw configuration layers are loaded.
+   *
+   * @returns Promise resolving to the configuration layers
+   * @private
+   */
+  private async ensureLayers(): Promise<ConfigLayers> {
+    if (!this.layers) {
+      await this.loadConfig()
+    }
+    return this.layers as ConfigLayers
+  }
+
+  /**
+   * Previews writing a new current mode to the layer that owns `currentMode`.
+   *
+   * If the project-local configuration sets `currentMode`, the project
+   * file is targeted; otherwise the global configuration is. No layer is
+   * modified; see {@link setCurrentModeInLayers}.
+   *
+   * @param modeName - The new current mode
+   * @returns Promise resolving to the preview of the affected layer file
+   * @private
+   */
+  private async previewCurrentMode(modeName: string): Promise<FilePreview> {
+    const layers = await this.ensureLayers()
+
+    if (layers.projectPath && layers.project?.currentMode !== undefined) {
+      return previewProjectPluginConfig(layers.projectPath, {
+        ...layers.project,
+        currentMode: modeName,
+      })
+    }
+    return previewPluginConfig({ ...layers.global, currentMode: modeName })
+  }
+
+  /**
+   * Records a new current mode in the layer that owns `currentMode`
+   * once the preview from {@link previewCurrentMode} has been written.
+   *
+   * @param modeName - The new current mode
+   * @private
+   */
+  private async setCurrentModeInLayers(modeName: string): Promise<void> {
+    const layers = await this.ensureLayers()
+
+    if (layers.projectPath && layers.project?.currentMode !== undefined) {
+      layers.project.currentMode = modeName
+    } else {
+      layers.global.currentMode = modeName
+    }
+
+    this.refreshMergedConfig()
+  }
+
+  /**
+   * Renders the opencode.json and oh-my-opencode.json writes for a preset.
+   *
+   * Nothing is written. Files that don't exist, or all files when the
+   * `config-hook` strategy is used, are marked as skipped.
+   *
+   * @param preset - The preset to apply
+   * @param config - The effective plugin configuration
+   * @returns Promise resolving to the planned files
+   * @throws {Error} If a configuration file cannot be loaded
+   * @private
+   */
+  private async planPresetFiles(
+    preset: ModePreset,
+    config: ModeSwitcherConfig
+  ): Promise<PlannedFile[]> {
+    if (this.getApplyStrategy(config) === 'config-hook') {
+      // Files are left untouched; the config hook applies the preset
+      const skipped = 'skipped (config-hook strategy)'
+      return [
+        { label: 'opencode.json', preview: null, skipped },
+        { label: 'oh-my-opencode.json', preview: null, skipped },
+      ]
+    }
+
+    const opencodeConfig = await this.buildOpencodeUpdate(
+      preset.model,
+      preset.opencode
+    )
+    const ohMyConfig = await this.buildOhMyOpencodeUpdate(
+      preset['oh-my-opencode'] ?? {}
+    )
+
+    return [
+      {
+        label: 'opencode.json',
+        preview: opencodeConfig ? previewOpencodeConfig(opencodeConfig) : null,
+      },
+      {
+        label: 'oh-my-opencode.json',
+        preview: ohMyConfig ? previewOhMyOpencodeConfig(ohMyConfig) : null,
+      },
+    ]
+  }
+
+  /**
+   * Renders every file write of a mode switch, including the new
+   * `currentMode` of the plugin configuration.
+   *
+   * @param modeName - The mode to switch to
+   * @param preset - The preset of the mode
+   * @param config - The effective plugin configuration
+   * @returns Promise resolving to the planned files
+   * @throws {Error} If a configuration file cannot be loaded
+   * @private
+   */
+  private async planSwitch(
+    modeName: string,
+    preset: ModePreset,
+    config: ModeSwitcherConfig
+  ): Promise<PlannedFile[]> {
+    return [
+      ...(await this.planPresetFiles(preset, config)),
+      {
+        label: 'agent-mode-switcher.json',
+        preview: await this.previewCurrentMode(modeName),
+      },
+    ]
+  }
+
+  /**
+   * Snapshots and writes all planned files as one all-or-nothing operation.
+   *
+   * @param plan - The planned files
+   * @param reason - Human-readable reason stored with the snapshot
+   * @throws {Error} If the snapshot cannot be written (nothing is written)
+   * @throws {ConfigFileChangedError} If a file changed since it was loaded (nothing is written)
+   * @throws {TransactionError} If a write fails (already written files are restored)
+   * @private
+   */
+  private async commitPlan(plan: PlannedFile[], reason: string): Promise<void> {
+    const previews = plan
+      .map((file) => file.preview)
+      .filter((preview): preview is FilePreview => preview !== null)
+
+    await this.snapshotBeforeWrite(
+      previews.map((preview) => preview.path),
+      reason
+    )
+    await commitFilePreviews(previews)
+  }
+
+  /**
+   * Validates and writes new configuration layers, together with other
+   * planned files, as one all-or-nothing operation. The new layers become
+   * the current layers once written.
+   *
+   * Must be called while holding the configuration lock. Layer files whose
+   * content doesn't change are not written.
+   *
+   * @param global - The new global layer
+   * @param project - The new project layer, or null without one
+   * @param files - Other planned files to write in the same operation
+   * @param reason - Human-readable reason stored with the snapshot
+   * @returns Promise resolving to the written and skipped files
+   * @throws {ConfigValidationError} If a new layer is invalid (nothing is written)
+   * @throws {ConfigFileChangedError} If a file changed since it was loaded (nothing is written)
+   * @throws {TransactionError} If a write fails (already written files are restored)
+   * @private
+   */
+  private async commitLayers(
+    global: ModeSwitcherConfig,
+    project: ProjectModeSwitcherConfig | null,
+    files: PlannedFile[],
+    reason: string
+  ): Promise<PlannedFile[]> {
+    const { projectPath } = await this.ensureLayers()
+    const layers: ConfigLayers = { global, project, projectPath }
+
+    // The global layer may refer to presets of the project layer, so
+    // references are only checked on the merged configuration
+    const globalIssues = validatePluginConfigStructure(global)
+    if (globalIssues.length > 0) {
+      throw new ConfigValidationError(getPluginConfigPath(), globalIssues)
+    }
+    const issues = validatePluginConfig(mergeConfigLayers(layers).config)
+    if (issues.length > 0) {
+      throw new ConfigValidationError(
+        projectPath && project ? projectPath : getPluginConfigPath(),
+        issues
+      )
+    }
+    const plan: PlannedFile[] = [
+      ...files,
+      {
+        label: 'agent-mode-switcher.json',
+        preview: previewPluginConfig(global),
+      },
+    ]
+    if (projectPath && project) {
+      plan.push({
+        label: '.opencode/agent-mode-switcher.json',
+        preview: previewProjectPluginConfig(projectPath, project),
+      })
+    }
+
+    const changed = plan.filter(
+      (file) => !file.preview || file.preview.before !== file.preview.after
+    )
+    await this.commitPlan(changed, reason)
+    this.layers = layers
+    this.refreshMergedConfig()
+    return changed
+  }
+
+  /**
+   * Snapshots files before they are written so they can be rolled back.
+   *
+   * @param paths - Absolute paths of the files about to be written
+   * @param reason - Human-readable reason stored with the snapshot
+   * @param extraRetention - Additional snapshots to keep beyond the configured retention
+   * @returns Promise resolving to the snapshot, or null if none was taken
+   * @throws {Error} If the snapshot cannot be written
+   * @private
+   */
+  private async snapshotBeforeWrite(
+    paths: string[],
+    reason: string,
+    extraRetention = 0
+  ): Promise<SnapshotManifest | null> {
+    const config = await this.ensureConfig()
+    const retention = config.backupRetention ?? DEFAULT_BACKUP_RETENTION
+    if (retention <= 0) {
+      return null
+    }
+    return createSnapshot(paths, reason, retention + extraRetention)
+  }
+
+  /**
+   * Formats the origin of a configuration value for status output.
+   *
+   * Only annotates values when a project-local layer is in use, so the
+   * output is unchanged for users with a single global configuration.
+   *
+   * @param path - JSON path of the value in the effective configuration
+   * @returns A suffix such as " (project)", or an empty string
+   * @private
+   */
+  private formatSource(path: string[]): string {
+    if (!this.layers?.project) {
+      return ''
+    }
+    const source = getValueSource(this.sources, path)
+    return source ? ` (${source})` : ''
+  }
+
+  /**
+   * Resolves the apply strategy configured for the plugin.
+   *
+   * @param config - The plugin configuration
+   * @returns The configured strategy, defaulting to `file`
+   * @private
+   */
+  private getApplyStrategy(config: ModeSwitcherConfig): ApplyStrategy {
+    return config.applyStrategy ?? 'file'
+  }
+
+  /**
+   * Warns that the `oh-my-opencode` section of a preset is not applied.
+   *
+   * With the `config-hook` strategy, only the configuration OpenCode loads
+   * is changed; oh-my-opencode reads its own file, which is left untouched.
+   *
+   * @param preset - The preset being applied or shown
+   * @param config - The plugin configuration
+   * @returns The warning lines, empty if the section is applied or empty
+   * @private
+   */
+  private formatStrategyWarnings(
+    preset: ModePreset,
+    config: ModeSwitcherConfig
+  ): string[] {
+    const ohMyOpencode = preset['oh-my-opencode'] ?? {}
+    if (
+      this.getApplyStrategy(config) !== 'config-hook' ||
+      Object.keys(ohMyOpencode).length === 0
+    ) {
+      return []
+    }
+    return [
+      'Warning: The oh-my-opencode settings of this preset are not applied with the config-hook strategy; oh-my-opencode.json is left unchanged.',
+    ]
+  }
+
   /**
    * Checks if actual config files have drifted from the current
    * mode preset and applies the preset if needed.
@@ -240,6 +984,9 @@ export class ModeManager {
    * files are updated to match the expected preset values,
    * and a toast notification prompts the user to restart.
    *
+   * Skipped entirely with the `config-hook` strategy, where the
+   * preset is injected by {@link applyToLoadedConfig} instead.
+   *
    * @private
    */
   private async applyCurrentModeIfNeeded(): Promise<void> {
@@ -247,6 +994,10 @@ export class ModeManager {
       return
     }
 
+    if (this.getApplyStrategy(this.config) === 'config-hook') {
+      return
+    }
+
     const preset = this.config.presets[this.config.currentMode]
     if (!preset) {
       return
@@ -257,9 +1008,17 @@ export class ModeManager {
       return
     }
 
-    // Apply the preset to actual config files
-    await this.updateOpencodeConfig(preset.model, preset.opencode)
-    await this.updateOhMyOpencodeConfig(preset['oh-my-opencode'])
+    // Snapshot and apply the preset to actual config files
+    try {
+      const plan = await this.planPresetFiles(preset, this.config)
+      await this.commitPlan(plan, `apply ${this.config.currentMode} on startup`)
+    } catch (error) {
+      console.error(
+        '[agent-mode-switcher] Failed to apply mode:',
+        error instanceof Error ? error.message : String(error)
+      )
+      return
+    }
 
     // Notify user to restart (fire-and-forget to avoid blocking
     // plugin initialization when UI is not yet ready).
@@ -282,15 +1041,54 @@ export class ModeManager {
   }
 
   /**
-   * Compares a mode preset against the actual opencode.json and
-   * oh-my-opencode.json files to detect configuration drift.
+   * Injects the current mode preset into the configuration loaded by OpenCode.
    *
-   * Checks global model and per-agent model values recursively. Returns true
-   * if any expected value differs from the actual file content.
+   * Called from the plugin `config` hook. With the `config-hook` strategy,
+   * the global model and agent models of the active preset are merged into
+   * the in-memory configuration, so opencode.json is never rewritten. Other
+   * properties of the loaded configuration are preserved. Does nothing with
+   * the default `file` strategy.
    *
-   * @param preset - The mode preset to compare against
-   * @returns True if actual configs differ from the preset
-   * @private
+   * The `oh-my-opencode` section of the preset is not applied here because
+   * oh-my-opencode reads its own configuration file.
+   *
+   * @param target - The configuration object loaded by OpenCode (modified in-place)
+   * @example
+   * ```typescript
+   * const hooks = {
+   *   config: async (input) => manager.applyToLoadedConfig(input),
+   * }
+   * ```
+   */
+  async applyToLoadedConfig(target: Config): Promise<void> {
+    const config = await this.ensureConfig()
+    if (this.getApplyStrategy(config) !== 'config-hook') {
+      return
+    }
+
+    const preset = config.presets[config.currentMode]
+    if (!preset) {
+      return
+    }
+
+    if (preset.model) {
+      target.model = preset.model
+    }
+
+    target.agent = target.agent || {}
+    deepMergeModel(target.agent as Record<string, unknown>, preset.opencode)
+  }
+
+  /**
+   * Compares a mode preset against the actual opencode.json and
+   * oh-my-opencode.json files to detect configuration drift.
+   *
+   * Checks global model and per-agent model values recursively. Returns true
+   * if any expected value differs from the actual file content.
+   *
+   * @param preset - The mode preset to compare against
+   * @returns True if actual configs differ from the preset
+   * @private
    */
   private async hasConfigDrift(preset: ModePreset): Promise<boolean> {
     const opencodeConfig = await loadOpencodeConfig()
@@ -322,7 +1120,7 @@ export class ModeManager {
       ohMyConfig &&
       hasDriftRecursive(
         ohMyConfig as Record<string, unknown>,
-        preset['oh-my-opencode']
+        preset['oh-my-opencode'] ?? {}
       )
     ) {
       return true
@@ -349,7 +1147,7 @@ export class ModeManager {
   /**
    * Gets a specific mode preset by name.
    *
-   * @param modeName - The name of the mode to retrieve (e.g., "performance", "economy")
+   * @param modeName - The name or alias of the mode to retrieve (e.g., "performance", "perf")
    * @returns Promise resolving to the preset configuration, or undefined if not found
    * @example
    * ```typescript
@@ -362,14 +1160,30 @@ export class ModeManager {
    */
   async getPreset(modeName: string): Promise<ModePreset | undefined> {
     const config = await this.ensureConfig()
-    return config.presets[modeName]
+    const name = getPresetAliases(config.presets)[modeName] ?? modeName
+    return config.presets[modeName] ?? config.presets[name]
+  }
+
+  /**
+   * Gets all mode presets, resolved against their `extends` chain.
+   *
+   * @returns Promise resolving to the presets by name
+   * @example
+   * ```typescript
+   * const presets = await manager.getPresets();
+   * console.log(Object.keys(presets)); // ['performance', 'economy']
+   * ```
+   */
+  async getPresets(): Promise<Record<string, ModePreset>> {
+    const config = await this.ensureConfig()
+    return config.presets
   }
 
   /**
    * Gets a formatted list of all available modes.
    *
-   * Returns a multi-line string listing each mode with its description,
-   * marking the currently active mode with "(current)".
+   * Returns a multi-line string listing each mode with its aliases and
+   * description, marking the currently active mode with "(current)".
    *
    * @returns Promise resolving to formatted string listing all available modes
    * @example
@@ -378,7 +1192,7 @@ export class ModeManager {
    * console.log(list);
    * // Output:
    * // Available modes:
-   * // - performance (current): High-performance models for complex tasks
+   * // - performance (current) [aliases: perf]: High-performance models for complex tasks
    * // - economy: Cost-efficient free model for routine tasks
    * ```
    */
@@ -388,7 +1202,11 @@ export class ModeManager {
     const modes = Object.entries(config.presets)
       .map(([name, preset]) => {
         const marker = name === currentMode ? ' (current)' : ''
-        return `- ${name}${marker}: ${preset.description}`
+        const parent = preset.extends ? ` (extends ${preset.extends})` : ''
+        const aliases = preset.aliases?.length
+          ? ` [aliases: ${preset.aliases.join(', ')}]`
+          : ''
+        return `- ${name}${marker}${parent}${aliases}: ${preset.description}`
       })
       .join('\n')
 
@@ -400,10 +1218,21 @@ export class ModeManager {
    *
    * Returns a formatted multi-line string showing:
    * - Current mode name and description
+   * - Session mode override for the given session (if any)
+   * - The layer (global or project) each value came from, when a
+   *   project-local configuration is in use
+   * - The presets it inherits from (if it uses `extends`)
    * - Global model setting (if configured)
+   * - The next scheduled mode change (if a schedule is configured)
+   * - Token usage against each usage limit (if configured)
+   * - A warning if the preset's oh-my-opencode settings are not applied
+   *   with the `config-hook` strategy
    * - Hierarchical tree of OpenCode configuration
    * - Hierarchical tree of oh-my-opencode configuration
    *
+   * The trees show the resolved preset, including inherited values.
+   *
+   * @param sessionID - Optional session ID used to report a session-scoped override
    * @returns Promise resolving to formatted status string
    * @example
    * ```typescript
@@ -421,7 +1250,7 @@ export class ModeManager {
    * // ...
    * ```
    */
-  async getStatus(): Promise<string> {
+  async getStatus(sessionID?: string): Promise<string> {
     const config = await this.ensureConfig()
     const currentMode = config.currentMode
     const preset = config.presets[currentMode]
@@ -430,20 +1259,54 @@ export class ModeManager {
       return `Current mode: ${currentMode} (preset not found)`
     }
 
+    const sessionMode = sessionID ? this.sessionModes.get(sessionID) : undefined
+    const sessionLines = sessionMode
+      ? [`Session mode: ${sessionMode} (this session only)`]
+      : []
+
+    const presetPath = ['presets', currentMode]
     const globalModel = preset.model
-      ? `Global model: ${preset.model}`
+      ? `Global model: ${preset.model}${this.formatSource([...presetPath, 'model'])}`
       : 'Global model: (not set)'
 
     // opencode: recursively format tree
-    const opencodeTree = formatHierarchicalTree(preset.opencode)
+    const opencodeTree = formatHierarchicalTree(preset.opencode, '  ', (path) =>
+      this.formatSource([...presetPath, 'opencode', ...path])
+    )
 
     // oh-my-opencode: recursively format tree
-    const ohMyOpencodeTree = formatHierarchicalTree(preset['oh-my-opencode'])
+    const ohMyOpencodeTree = formatHierarchicalTree(
+      preset['oh-my-opencode'] ?? {},
+      '  ',
+      (path) => this.formatSource([...presetPath, 'oh-my-opencode', ...path])
+    )
+
+    const layerLines = this.layers?.projectPath
+      ? [`Project config: ${this.layers.projectPath}`]
+      : []
+    const extendsLines = preset.extends
+      ? [
+          `Extends: ${getInheritanceChain(config.presets, currentMode).slice(1).join(' -> ')}`,
+        ]
+      : []
+    const scheduleLines = config.schedule
+      ? [this.formatNextScheduleChange(config.schedule, config.timezone)]
+      : []
+    const usageLines = config.usage ? await this.formatUsage(config.usage) : []
+    const failoverLines = await this.formatFailover(config)
+    const warningLines = this.formatStrategyWarnings(preset, config)
 
     return [
-      `Current mode: ${currentMode}`,
-      `Description: ${preset.description}`,
+      `Current mode: ${currentMode}${this.formatSource(['currentMode'])}`,
+      ...sessionLines,
+      `Description: ${preset.description}${this.formatSource([...presetPath, 'description'])}`,
+      ...extendsLines,
       globalModel,
+      ...layerLines,
+      ...scheduleLines,
+      ...usageLines,
+      ...failoverLines,
+      ...warningLines,
       '',
       'OpenCode config:',
       opencodeTree || '  (none configured)',
@@ -457,16 +1320,31 @@ export class ModeManager {
    * Switches to a different mode by updating all configuration files.
    *
    * This method performs the following operations:
-   * 1. Validates that the requested mode exists
-   * 2. Updates `opencode.json` with new global model and agent settings
-   * 3. Updates `oh-my-opencode.json` with new agent settings
-   * 4. Updates `agent-mode-switcher.json` with the new current mode
-   * 5. Shows a toast notification (if available)
+   * 1. Validates that the requested mode exists and renders the new
+   *    content of `opencode.json` (global model and agent settings),
+   *    `oh-my-opencode.json` and `agent-mode-switcher.json` (current mode)
+   * 2. Snapshots the files about to be written (see {@link rollback})
+   * 3. Writes all files as one transaction: each file is replaced
+   *    atomically, and if any write fails the files already written are
+   *    restored, so a mode is never half-applied
+   * 4. Shows a toast notification (if available)
    *
    * Configuration files that don't exist are skipped with a warning.
-   * Changes take effect after restarting OpenCode.
+   * With the `config-hook` strategy, only `agent-mode-switcher.json` is
+   * written and the preset is injected by the plugin `config` hook on the
+   * next startup; the result warns that the preset's oh-my-opencode
+   * settings are not applied. Changes take effect after restarting
+   * OpenCode.
+   *
+   * With `options.dryRun`, nothing is written and a unified diff of every
+   * file that would change is returned instead.
+   *
+   * Preset aliases and near misses of a mode name (different case, a
+   * unique prefix such as `perf`, or a small typo) are resolved to the
+   * preset they refer to.
    *
-   * @param modeName - The name of the mode to switch to
+   * @param requestedMode - The name of the mode to switch to
+   * @param options - Switch options (e.g., `dryRun`)
    * @returns Promise resolving to a formatted result message with status of each config update
    * @example
    * ```typescript
@@ -484,133 +1362,1389 @@ export class ModeManager {
    * // Note: Restart opencode to apply changes.
    * ```
    */
-  async switchMode(modeName: string): Promise<string> {
+  async switchMode(
+    requestedMode: string,
+    options: SwitchModeOptions = {}
+  ): Promise<string> {
+    return (await this.trySwitchMode(requestedMode, options)).message
+  }
+
+  /**
+   * Switches modes like {@link switchMode}, also reporting whether the
+   * files were switched. Automatic switches use this to retry switches
+   * that failed.
+   *
+   * @param requestedMode - The name of the mode to switch to
+   * @param options - Switch options
+   * @returns Promise resolving to whether the mode was switched and the result message
+   * @private
+   */
+  private async trySwitchMode(
+    requestedMode: string,
+    options: SwitchModeOptions
+  ): Promise<SwitchOutcome> {
+    const failed = (message: string) => ({ switched: false, message })
     const config = await this.ensureConfig()
-    const preset = config.presets[modeName]
+    const names = Object.keys(config.presets)
+    const match = matchModeName(
+      requestedMode,
+      names,
+      getPresetAliases(config.presets)
+    )
+    const modeName = match.name
+    const preset = modeName !== undefined && config.presets[modeName]
 
-    if (!preset) {
-      const available = Object.keys(config.presets).join(', ')
-      return `Mode "${modeName}" not found. Available modes: ${available}`
+    if (modeName === undefined || !preset) {
+      return failed(formatUnknownMode(requestedMode, match, names))
     }
 
-    const results: string[] = []
+    // 1. Render every file write before touching anything
+    if (options.dryRun) {
+      try {
+        const plan = await this.planSwitch(modeName, preset, config)
+        return failed(this.formatDryRun(modeName, preset, plan))
+      } catch (error) {
+        return failed(this.formatSwitchFailure(modeName, error))
+      }
+    }
 
-    // 1. Update opencode.json (global model and agent section)
-    const opencodeResult = await this.updateOpencodeConfig(
-      preset.model,
-      preset.opencode
-    )
-    results.push(`opencode.json: ${opencodeResult}`)
+    const because = options.reason ? ` (${options.reason})` : ''
 
-    // 2. Update oh-my-opencode.json directly (agents section only)
-    const ohMyResult = await this.updateOhMyOpencodeConfig(
-      preset['oh-my-opencode']
-    )
-    results.push(`oh-my-opencode.json: ${ohMyResult}`)
+    // 2-3. Snapshot and write all files, or none of them. Files are
+    // reloaded under the lock so that changes made by another instance in
+    // the meantime are not overwritten.
+    let plan: PlannedFile[]
+    try {
+      plan = await withConfigLock(async () => {
+        const current = await this.loadConfig()
+        const currentPreset = current.presets[modeName]
+        if (!currentPreset) {
+          throw new Error(`Mode "${modeName}" was removed by another process`)
+        }
+        const lockedPlan = await this.planSwitch(
+          modeName,
+          currentPreset,
+          current
+        )
+        await this.commitPlan(lockedPlan, `switch to ${modeName}${because}`)
+        return lockedPlan
+      })
+    } catch (error) {
+      return failed(this.formatSwitchFailure(modeName, error))
+    }
+    await this.setCurrentModeInLayers(modeName)
 
-    // 3. Update plugin configuration
-    config.currentMode = modeName
-    this.config = config
-    await savePluginConfig(config)
-    results.push('agent-mode-switcher.json: updated')
+    const results = plan.map(
+      (file) =>
+        `${file.label}: ${file.preview ? 'updated' : (file.skipped ?? 'skipped (not found)')}`
+    )
 
     // 4. Show toast notification (fire-and-forget - toast might not be available)
     this.client.tui
       .showToast({
         body: {
           title: 'Mode Switched',
-          message: `Switched to "${modeName}". Restart opencode to apply.`,
+          message: `Switched to "${modeName}"${because}. Restart opencode to apply.`,
           variant: 'warning',
           duration: 5000,
         },
       })
       .catch(() => {})
 
-    return [
+    const message = [
       `Switched to ${modeName} mode`,
       preset.description,
       '',
       'Results:',
       ...results.map((r) => `  - ${r}`),
       '',
+      ...this.formatStrategyWarnings(preset, config),
       'Note: Restart opencode to apply changes.',
     ].join('\n')
+    return { switched: true, message }
+  }
+
+  /**
+   * Describes the next mode change of a schedule for status output.
+   *
+   * @param schedule - The schedule
+   * @param timezone - The configured time zone
+   * @returns The status line
+   * @private
+   */
+  private formatNextScheduleChange(
+    schedule: ScheduleConfig,
+    timezone: string | undefined
+  ): string {
+    const change = getNextScheduleChange(schedule, new Date(), timezone)
+    if (!change) {
+      return 'Next scheduled change: (none within a week)'
+    }
+    const zone = timezone ? ` ${timezone}` : ''
+    return `Next scheduled change: ${change.mode} at ${formatScheduleTime(change.at, timezone)}${zone}`
   }
 
   /**
-   * Updates opencode.json with global model and agent section.
+   * Switches to the mode scheduled for the given time.
    *
-   * This internal method modifies the OpenCode configuration file to apply
-   * the new preset's settings. It preserves other configuration properties
-   * and only updates model-related fields using recursive merge.
+   * Called on startup and periodically by the plugin. The mode is only
+   * switched when a schedule boundary was crossed since the last
+   * evaluation, so a mode switched to manually stays active until the
+   * next boundary. The applied slot is recorded in
+   * agent-mode-switcher-schedule.json so that this also holds across
+   * restarts and between OpenCode instances. A slot whose switch failed
+   * is not recorded, so the switch is retried on the next evaluation.
    *
-   * @param globalModel - Global model setting (optional). If provided, sets the top-level "model" field
-   * @param agentPresets - Hierarchical preset structure for agent configuration
-   * @returns Promise resolving to result status: "updated", "skipped (not found)", or "error: ..."
+   * @param now - The time to evaluate the schedule at (default: now)
+   * @returns Promise resolving to the switch result, or null if nothing was switched
+   * @example
+   * ```typescript
+   * setInterval(() => manager.applySchedule(), 60_000)
+   * ```
+   */
+  async applySchedule(now: Date = new Date()): Promise<string | null> {
+    const { schedule, timezone } = await this.ensureConfig()
+    if (!schedule) {
+      return null
+    }
+    const slot = getScheduleSlot(schedule, now, timezone)
+
+    return await withConfigLock(async () => {
+      if ((await readAppliedScheduleSlot()) === slot.key) {
+        return null
+      }
+      const config = await this.loadConfig()
+      const modeName =
+        slot.mode === undefined
+          ? undefined
+          : (getPresetAliases(config.presets)[slot.mode] ?? slot.mode)
+      if (modeName === undefined || modeName === config.currentMode) {
+        await writeAppliedScheduleSlot(slot.key)
+        return null
+      }
+
+      const window = slot.window
+        ? `${slot.window.start}-${slot.window.end}`
+        : 'default'
+      const outcome = await this.trySwitchMode(modeName, {
+        reason: `schedule ${window}`,
+      })
+      // A failed switch is retried on the next evaluation
+      if (outcome.switched) {
+        await writeAppliedScheduleSlot(slot.key)
+      }
+      return outcome.message
+    })
+  }
+
+  /**
+   * Describes token usage against the usage limits for status output.
+   *
+   * @param usage - The usage configuration
+   * @returns Promise resolving to the status lines
    * @private
    */
-  private async updateOpencodeConfig(
-    globalModel: string | undefined,
-    agentPresets: HierarchicalPreset
-  ): Promise<string> {
-    try {
-      const opencodeConfig = await loadOpencodeConfig()
+  private async formatUsage(usage: UsageConfig): Promise<string[]> {
+    const windowStart = getUsageWindowStart(usage, Date.now())
+    const { records } = await readUsageState()
+    const current = records.filter(({ at }) => at >= windowStart)
+    const hours = Math.round((Date.now() - windowStart) / 3_600_000)
+
+    return [
+      `Token usage (last ${hours}h):`,
+      ...getLimitStatus(current, usage.limits).map(
+        ({ limit, used }) =>
+          `  ${limit.provider ?? 'all providers'}: ${used.toLocaleString('en-US')} / ${limit.tokens.toLocaleString('en-US')} (then ${limit.action === 'notify' ? 'recommend' : 'switch to'} ${limit.mode})`
+      ),
+    ]
+  }
+
+  /**
+   * Records the tokens and cost of an assistant message and acts on usage
+   * limits and the budget.
+   *
+   * Called from the `event` hook for every `message.updated` event;
+   * messages are recorded once they are completed. The provider of the
+   * message is remembered for {@link recordProviderError}, and a response
+   * completed without error clears the provider's failures. When a usage
+   * limit is reached, the limit's mode is switched to, or recommended in a
+   * toast with the `notify` action. When a budget is exhausted, the budget's
+   * mode is switched to. Nothing happens if that mode is already the
+   * current mode.
+   *
+   * @param message - The updated assistant message
+   * @returns Promise resolving to the switch results of reached limits and budgets
+   * @example
+   * ```typescript
+   * event: async ({ event }) => {
+   *   if (event.type === 'message.updated' && event.properties.info.role === 'assistant') {
+   *     await manager.recordUsage(event.properties.info)
+   *   }
+   * }
+   * ```
+   */
+  async recordUsage(message: AssistantMessage): Promise<string[]> {
+    this.sessionProviders.set(message.sessionID, message.providerID)
+    const { usage, budget, timezone } = await this.ensureConfig()
+    const record = toUsageRecord(message)
+    if (!record) {
+      return []
+    }
+    this.failingSessions.delete(message.sessionID)
+    if (!message.error) {
+      await this.clearProviderFailures(message.providerID)
+    }
 
-      if (!opencodeConfig) {
-        return 'skipped (not found)'
+    const results = usage ? await this.recordTokens(usage, record) : []
+    const switched = budget
+      ? await this.recordSpend(budget, record, timezone)
+      : null
+    return switched ? [...results, switched] : results
+  }
+
+  /**
+   * Records the tokens of a message and acts on reached usage limits.
+   *
+   * @param usage - The usage configuration
+   * @param record - Tokens used by the message
+   * @returns Promise resolving to the switch results of reached limits
+   * @private
+   */
+  private async recordTokens(
+    usage: UsageConfig,
+    record: UsageRecord
+  ): Promise<string[]> {
+    const reached = await withConfigLock(async () => {
+      const state = await readUsageState()
+      const windowStart = getUsageWindowStart(usage, Date.now())
+      const added = addUsageRecord(state, record, windowStart)
+      if (!added) {
+        return []
       }
+      const updated = updateReachedLimits(added, usage.limits)
+      await writeUsageState(updated.state)
+      return updated.reached
+    })
 
-      // Update global model if specified
-      if (globalModel) {
-        opencodeConfig.model = globalModel
+    const results: string[] = []
+    for (const status of reached) {
+      const result = await this.handleUsageLimit(status)
+      if (result) {
+        results.push(result)
       }
+    }
+    return results
+  }
 
-      // Agent section: recursively merge preset into existing config
-      opencodeConfig.agent = opencodeConfig.agent || {}
-      deepMergeModel(
-        opencodeConfig.agent as Record<string, unknown>,
-        agentPresets
+  /**
+   * Records the cost of a message and switches to the budget's mode when
+   * a budget is exhausted.
+   *
+   * @param budget - The budget configuration
+   * @param record - Tokens used by the message
+   * @param timezone - The configured time zone of the budget days
+   * @returns Promise resolving to the switch result, or null if nothing was switched
+   * @private
+   */
+  private async recordSpend(
+    budget: BudgetConfig,
+    record: UsageRecord,
+    timezone: string | undefined
+  ): Promise<string | null> {
+    const exhausted = await withConfigLock(async () => {
+      const state = await readSpendState()
+      const added = addSpend(
+        state,
+        record,
+        calculateCost(record, budget.pricing),
+        timezone
+      )
+      if (!added) {
+        return []
+      }
+      const updated = updateExhaustedBudgets(
+        added,
+        budget,
+        new Date(),
+        timezone
       )
+      await writeSpendState(updated.state)
+      return updated.exhausted
+    })
+
+    const [first] = exhausted
+    if (!first) {
+      return null
+    }
+    const config = await this.loadConfig()
+    const modeName =
+      getPresetAliases(config.presets)[budget.mode] ?? budget.mode
+    if (modeName === config.currentMode) {
+      return null
+    }
+    return await this.switchMode(modeName, {
+      reason: `${first.period} budget of ${formatUsd(first.budget)} exhausted, ${formatUsd(first.spent)} spent`,
+    })
+  }
+
+  /**
+   * Gets the spend against the budget.
+   *
+   * Returns today's and this month's spend with their budgets, and this
+   * month's spend by model.
+   *
+   * @returns Promise resolving to the formatted spend report
+   * @example
+   * ```typescript
+   * const report = await manager.getBudget();
+   * console.log(report);
+   * // Output:
+   * // Spend today: $3.21 of $10.00
+   * // Spend this month: $45.10 of $200.00
+   * // When a budget is exhausted: switch to economy
+   * //
+   * // This month by model:
+   * //   anthropic/claude-opus-4-5: $40.00
+   * //   anthropic/claude-haiku-4-5: $5.10
+   * ```
+   */
+  async getBudget(): Promise<string> {
+    const { budget, timezone } = await this.ensureConfig()
+    if (!budget) {
+      return 'No budget configured. Set "budget" in agent-mode-switcher.json to track spend.'
+    }
+
+    const summary = getSpendSummary(
+      await readSpendState(),
+      new Date(),
+      timezone
+    )
+    const of = (limit: number | undefined) =>
+      limit === undefined ? '' : ` of ${formatUsd(limit)}`
+    const models = summary.byModel.map(
+      ([model, cost]) => `  ${model}: ${formatUsd(cost)}`
+    )
+
+    return [
+      `Spend today: ${formatUsd(summary.today)}${of(budget.daily)}`,
+      `Spend this month: ${formatUsd(summary.month)}${of(budget.monthly)}`,
+      `When a budget is exhausted: switch to ${budget.mode}`,
+      '',
+      'This month by model:',
+      ...(models.length > 0 ? models : ['  (no spend recorded)']),
+    ].join('\n')
+  }
+
+  /**
+   * Describes the last failover for status output.
+   *
+   * @param config - The plugin configuration
+   * @returns Promise resolving to the status lines, empty without a failover
+   * @private
+   */
+  private async formatFailover(config: ModeSwitcherConfig): Promise<string[]> {
+    const { active } = await readFailoverState()
+    if (!active) {
+      return []
+    }
+    const at = formatScheduleTime(new Date(active.at), config.timezone)
+    const end = formatScheduleTime(
+      new Date(getCooldownEnd(active, config.failover)),
+      config.timezone
+    )
+    return [
+      `Failover: ${active.from} -> ${active.to} at ${at} (${describeProviderError(active.provider, active.kind)}); switching back is offered after ${end}`,
+    ]
+  }
+
+  /**
+   * Counts a rate-limit error and fails over when the threshold is reached.
+   *
+   * Called from the `event` hook for session errors and retries that are
+   * classified as rate limits, exhausted quotas or overloaded providers
+   * (see modes/failover). Errors are counted per provider, attributed via
+   * the session's latest assistant message. Each failing request counts
+   * once: later retries of a request and the session error that ends it
+   * are ignored. When a provider reaches the `failover.threshold`
+   * (default 3) of consecutive errors, the `failoverMode` of the current
+   * preset is switched to and the failover is recorded for
+   * {@link checkFailoverCooldown}. Because the switch only applies after a
+   * restart, sessions using the provider also get the failover mode as a
+   * session override (see {@link switchSessionMode}), which takes effect
+   * with their next message. Nothing is counted if the current preset has
+   * no `failoverMode`.
+   *
+   * @param sessionID - The session that failed
+   * @param kind - The kind of error
+   * @param attempt - The retry attempt of a `session.status` retry, or
+   *   undefined for a `session.error`
+   * @returns Promise resolving to the switch result, or null if nothing was switched
+   * @example
+   * ```typescript
+   * const kind = classifySessionError(event.properties.error)
+   * if (kind) {
+   *   await manager.recordProviderError(event.properties.sessionID, kind)
+   * }
+   * ```
+   */
+  async recordProviderError(
+    sessionID: string,
+    kind: ProviderErrorKind,
+    attempt?: number
+  ): Promise<string | null> {
+    const alreadyCounted =
+      this.failingSessions.has(sessionID) &&
+      (attempt === undefined || attempt > 1)
+    if (attempt === undefined) {
+      this.failingSessions.delete(sessionID)
+    } else {
+      this.failingSessions.add(sessionID)
+    }
+    const provider = this.sessionProviders.get(sessionID)
+    const config = await this.ensureConfig()
+    if (
+      alreadyCounted ||
+      provider === undefined ||
+      !config.presets[config.currentMode]?.failoverMode
+    ) {
+      return null
+    }
+
+    const failover = await withConfigLock(async () => {
+      const current = await this.loadConfig()
+      const from = current.currentMode
+      const target = current.presets[from]?.failoverMode
+      if (target === undefined) {
+        return null
+      }
+      const counted = addProviderFailure(
+        await readFailoverState(),
+        provider,
+        current.failover
+      )
+      const to = getPresetAliases(current.presets)[target] ?? target
+      if (!counted.reached || to === from) {
+        await writeFailoverState(counted.state)
+        return null
+      }
+      const record: FailoverRecord = {
+        provider,
+        kind,
+        from,
+        to,
+        at: Date.now(),
+      }
+      await writeFailoverState({ ...counted.state, active: record })
+      return record
+    })
+
+    if (!failover) {
+      return null
+    }
+    for (const [id, sessionProvider] of this.sessionProviders) {
+      const sessionMode = this.sessionModes.get(id) ?? failover.from
+      if (sessionProvider === provider && sessionMode === failover.from) {
+        this.sessionModes.set(id, failover.to)
+      }
+    }
+    return await this.switchMode(failover.to, {
+      reason: describeProviderError(provider, kind),
+    })
+  }
+
+  /**
+   * Forgets the failures of a provider after a successful response.
+   *
+   * @param provider - The provider
+   * @returns Promise resolving when the failures are cleared
+   * @private
+   */
+  private async clearProviderFailures(provider: string): Promise<void> {
+    if (!(provider in (await readFailoverState()).failures)) {
+      return
+    }
+    await withConfigLock(async () => {
+      const state = await readFailoverState()
+      const { [provider]: _cleared, ...failures } = state.failures
+      await writeFailoverState({ ...state, failures })
+    })
+  }
+
+  /**
+   * Offers to switch back once the cooldown of the last failover expired.
+   *
+   * Called on startup and periodically by the plugin. After
+   * `failover.cooldownMinutes` (default 30), a toast suggests switching
+   * back to the mode active before the failover, unless another mode has
+   * been switched to in the meantime. The offer is made once.
+   *
+   * @param now - The time to check the cooldown at (default: now)
+   * @returns Promise resolving to the offer, or null if none was made
+   */
+  async checkFailoverCooldown(now: Date = new Date()): Promise<string | null> {
+    const { failover } = await this.ensureConfig()
+    const { active } = await readFailoverState()
+    if (!active || now.getTime() < getCooldownEnd(active, failover)) {
+      return null
+    }
+
+    const expired = await withConfigLock(async () => {
+      const state = await readFailoverState()
+      if (state.active?.at !== active.at) {
+        return null
+      }
+      await writeFailoverState({ failures: state.failures })
+      const config = await this.loadConfig()
+      return config.currentMode === active.to ? active : null
+    })
+    if (!expired) {
+      return null
+    }
+
+    const offer = `Switched to "${expired.to}" because ${describeProviderError(expired.provider, expired.kind)}; the cooldown has expired. Use /mode ${expired.from} to switch back.`
+    this.client.tui
+      .showToast({
+        body: {
+          title: 'Failover Cooldown Over',
+          message: offer,
+          variant: 'info',
+          duration: 10000,
+        },
+      })
+      .catch(() => {})
+    return offer
+  }
+
+  /**
+   * Switches to, or recommends, the mode of a reached usage limit.
+   *
+   * @param status - The reached limit and its usage
+   * @returns Promise resolving to the switch result, or null if nothing was switched
+   * @private
+   */
+  private async handleUsageLimit(
+    status: UsageLimitStatus
+  ): Promise<string | null> {
+    const { limit, used } = status
+    const config = await this.loadConfig()
+    const modeName = getPresetAliases(config.presets)[limit.mode] ?? limit.mode
+    if (modeName === config.currentMode) {
+      return null
+    }
+
+    const scope = limit.provider ? `${limit.provider} ` : ''
+    const reason = `${used.toLocaleString('en-US')} ${scope}tokens used of ${limit.tokens.toLocaleString('en-US')}`
+    if (limit.action === 'notify') {
+      this.client.tui
+        .showToast({
+          body: {
+            title: 'Token Limit Reached',
+            message: `${reason}. Consider /mode ${modeName}.`,
+            variant: 'warning',
+            duration: 10000,
+          },
+        })
+        .catch(() => {})
+      return null
+    }
+    return await this.switchMode(modeName, { reason })
+  }
 
-      await saveOpencodeConfig(opencodeConfig)
-      return 'updated'
+  /**
+   * Creates a new preset.
+   *
+   * Without `sourceMode`, the preset captures the live configuration: the
+   * `model` and `agent` tree of opencode.json and the whole of
+   * oh-my-opencode.json. With `sourceMode`, the resolved preset of that
+   * mode is copied instead.
+   *
+   * The preset is added to the global agent-mode-switcher.json (comments
+   * are preserved). The configuration is validated first, so a preset that
+   * would fail to load on the next startup is never written. Names of
+   * `/mode` subcommands are refused.
+   *
+   * @param modeName - Name of the new mode
+   * @param description - Description of the new mode
+   * @param sourceMode - Existing mode to copy (optional)
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.createMode('premium', 'High-end models');
+   * console.log(result);
+   * ```
+   */
+  async createMode(
+    modeName: string,
+    description: string,
+    sourceMode?: string
+  ): Promise<string> {
+    if (!MODE_NAME_PATTERN.test(modeName)) {
+      return `Invalid mode name "${modeName}". Use letters, digits, "-" and "_", starting with a letter or digit.`
+    }
+    if (isReservedModeName(modeName)) {
+      return `Invalid mode name "${modeName}". It is reserved for the /mode ${modeName.toLowerCase()} subcommand.`
+    }
+
+    try {
+      await withConfigLock(async () => {
+        const config = await this.loadConfig()
+        if (config.presets[modeName]) {
+          throw new Error(`Mode "${modeName}" already exists`)
+        }
+        const aliasOf = getPresetAliases(config.presets)[modeName]
+        if (aliasOf !== undefined) {
+          throw new Error(`"${modeName}" is an alias of mode "${aliasOf}"`)
+        }
+
+        let preset: ModePreset
+        if (sourceMode !== undefined) {
+          const source = config.presets[sourceMode]
+          if (!source) {
+            throw new Error(`Source mode "${sourceMode}" not found`)
+          }
+          // The source is resolved already, so the copy is self-contained.
+          // Aliases name only the source, so they are not copied.
+          const {
+            extends: _parent,
+            description: _description,
+            aliases: _aliases,
+            ...settings
+          } = structuredClone(source)
+          preset = { description, ...settings }
+        } else {
+          preset = await buildPresetFromCurrentConfig(description)
+        }
+
+        const layers = await this.ensureLayers()
+        const global = {
+          ...layers.global,
+          presets: { ...layers.global.presets, [modeName]: preset },
+        }
+        await this.commitLayers(
+          global,
+          layers.project,
+          [],
+          `create ${modeName}`
+        )
+      })
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
-      return `error: ${message}`
+      return `Failed to create mode "${modeName}": ${message}`
     }
+
+    const source = sourceMode
+      ? `copied from ${sourceMode}`
+      : 'captured from the current configuration'
+    return [
+      `Created ${modeName} mode (${source})`,
+      description,
+      '',
+      `Restart opencode, then use /mode ${modeName} to activate it.`,
+    ].join('\n')
   }
 
   /**
-   * Updates oh-my-opencode.json with preset values.
+   * Creates a copy of an existing mode under a new name.
    *
-   * This internal method modifies the oh-my-opencode configuration file
-   * to apply the new preset's settings using recursive merge. The entire
-   * structure (agents, categories, etc.) is updated while preserving
-   * other properties.
+   * The resolved preset is copied, so the copy does not depend on the
+   * parent of the source mode. See {@link createMode}.
    *
-   * @param preset - Hierarchical preset structure for oh-my-opencode configuration
-   * @returns Promise resolving to result status: "updated", "skipped (not found)", or "error: ..."
-   * @private
+   * @param sourceMode - The mode to copy
+   * @param modeName - Name of the new mode
+   * @param description - Description of the new mode (default: the source's)
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.copyMode('economy', 'economy-plus');
+   * ```
    */
-  private async updateOhMyOpencodeConfig(
-    preset: HierarchicalPreset
+  async copyMode(
+    sourceMode: string,
+    modeName: string,
+    description?: string
+  ): Promise<string> {
+    const config = await this.ensureConfig()
+    const source = config.presets[sourceMode]
+    if (!source) {
+      const available = Object.keys(config.presets).join(', ')
+      return `Mode "${sourceMode}" not found. Available modes: ${available}`
+    }
+    return this.createMode(
+      modeName,
+      description ?? source.description,
+      sourceMode
+    )
+  }
+
+  /**
+   * Deletes a mode from every configuration layer.
+   *
+   * The current mode can only be deleted together with a replacement,
+   * which becomes the new `currentMode` and is applied to the
+   * configuration files in the same operation. Modes that other presets
+   * extend, or that other settings such as the schedule refer to by name
+   * or alias, cannot be deleted.
+   *
+   * @param modeName - The mode to delete
+   * @param replacementMode - Mode to switch to if `modeName` is the current mode
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.deleteMode('economy', 'performance');
+   * console.log(result);
+   * ```
+   */
+  async deleteMode(
+    modeName: string,
+    replacementMode?: string
   ): Promise<string> {
+    const initial = await this.ensureConfig()
+    if (!initial.presets[modeName]) {
+      const available = Object.keys(initial.presets).join(', ')
+      return `Mode "${modeName}" not found. Available modes: ${available}`
+    }
+
+    let plan: PlannedFile[]
+    let switched = false
     try {
-      const ohMyConfig = await loadOhMyOpencodeConfig()
+      plan = await withConfigLock(async () => {
+        const config = await this.loadConfig()
+        const layers = await this.ensureLayers()
+        if (!config.presets[modeName]) {
+          throw new Error('it was removed by another process')
+        }
 
-      if (!ohMyConfig) {
-        return 'skipped (not found)'
+        const dependents = findDependentPresets(
+          mergeConfigLayers(layers).config.presets,
+          modeName
+        )
+        if (dependents.length > 0) {
+          throw new Error(
+            `it is extended by ${dependents.join(', ')}. Delete those modes or change their "extends" first.`
+          )
+        }
+        const references = findModeReferences(config, [
+          modeName,
+          ...(config.presets[modeName]?.aliases ?? []),
+        ])
+        if (references.length > 0) {
+          throw new Error(
+            `it is used by ${references.join(', ')}. Change those settings first.`
+          )
+        }
+
+        const isCurrent =
+          layers.global.currentMode === modeName ||
+          layers.project?.currentMode === modeName
+        let presetFiles: PlannedFile[] = []
+        if (isCurrent) {
+          if (replacementMode === undefined) {
+            throw new Error(
+              'it is the current mode. Pass a replacement mode to switch to.'
+            )
+          }
+          const replacement = config.presets[replacementMode]
+          if (replacementMode === modeName || !replacement) {
+            const others = Object.keys(config.presets).filter(
+              (name) => name !== modeName
+            )
+            throw new Error(
+              `replacement mode "${replacementMode}" not found. Available modes: ${others.join(', ')}`
+            )
+          }
+          // Only the effective mode needs to be applied to the files
+          if (config.currentMode === modeName) {
+            presetFiles = await this.planPresetFiles(replacement, config)
+            switched = true
+          }
+        }
+
+        return this.commitLayers(
+          removeModeFromLayer(
+            layers.global,
+            modeName,
+            replacementMode
+          ) as ModeSwitcherConfig,
+          layers.project &&
+            removeModeFromLayer(layers.project, modeName, replacementMode),
+          presetFiles,
+          `delete ${modeName}`
+        )
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return `Failed to delete mode "${modeName}": ${message}`
+    }
+
+    for (const [sessionID, sessionMode] of this.sessionModes) {
+      if (sessionMode === modeName) {
+        this.sessionModes.delete(sessionID)
       }
+    }
+
+    if (switched) {
+      this.client.tui
+        .showToast({
+          body: {
+            title: 'Mode Switched',
+            message: `Deleted "${modeName}" and switched to "${replacementMode}". Restart opencode to apply.`,
+            variant: 'warning',
+            duration: 5000,
+          },
+        })
+        .catch(() => {})
+    }
+
+    return [
+      `Deleted ${modeName} mode`,
+      ...(switched ? [`Switched to ${replacementMode} mode`] : []),
+      '',
+      'Results:',
+      ...plan.map(
+        (file) =>
+          `  - ${file.label}: ${file.preview ? 'updated' : (file.skipped ?? 'skipped (not found)')}`
+      ),
+      ...(switched ? ['', 'Note: Restart opencode to apply changes.'] : []),
+    ].join('\n')
+  }
+
+  /**
+   * Renames a mode in every configuration layer.
+   *
+   * `currentMode`, the `extends` and `failoverMode` references of
+   * presets, the modes named by the schedule, the usage limits and the
+   * budget, and session-scoped overrides follow the new name. References by alias are kept, since the aliases stay.
+   * The new name must not be a `/mode` subcommand.
+   *
+   * @param oldName - Current name of the mode
+   * @param newName - New name of the mode
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.renameMode('economy', 'budget');
+   * console.log(result);
+   * ```
+   */
+  async renameMode(oldName: string, newName: string): Promise<string> {
+    if (!MODE_NAME_PATTERN.test(newName)) {
+      return `Invalid mode name "${newName}". Use letters, digits, "-" and "_", starting with a letter or digit.`
+    }
+    if (isReservedModeName(newName)) {
+      return `Invalid mode name "${newName}". It is reserved for the /mode ${newName.toLowerCase()} subcommand.`
+    }
+    const initial = await this.ensureConfig()
+    if (!initial.presets[oldName]) {
+      const available = Object.keys(initial.presets).join(', ')
+      return `Mode "${oldName}" not found. Available modes: ${available}`
+    }
+
+    try {
+      await withConfigLock(async () => {
+        const config = await this.loadConfig()
+        const layers = await this.ensureLayers()
+        const preset = config.presets[oldName]
+        if (!preset) {
+          throw new Error('it was removed by another process')
+        }
+        if (config.presets[newName]) {
+          throw new Error(`mode "${newName}" already exists`)
+        }
+        const aliasOf = getPresetAliases(config.presets)[newName]
+        if (aliasOf !== undefined) {
+          throw new Error(`"${newName}" is an alias of mode "${aliasOf}"`)
+        }
+
+        await this.commitLayers(
+          renameModeInLayer(
+            layers.global,
+            oldName,
+            newName
+          ) as ModeSwitcherConfig,
+          layers.project && renameModeInLayer(layers.project, oldName, newName),
+          [],
+          `rename ${oldName} to ${newName}`
+        )
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return `Failed to rename mode "${oldName}": ${message}`
+    }
+
+    for (const [sessionID, sessionMode] of this.sessionModes) {
+      if (sessionMode === oldName) {
+        this.sessionModes.set(sessionID, newName)
+      }
+    }
+
+    return [
+      `Renamed ${oldName} mode to ${newName}`,
+      '',
+      `Restart opencode, then use /mode ${newName} to switch to it.`,
+    ].join('\n')
+  }
+
+  /**
+   * Sets the model, variant or other properties of a single agent in a
+   * preset.
+   *
+   * The settings are merged into the agent's existing settings, and
+   * missing groups on the agent path are created. The preset is updated in
+   * the project layer if it defines the preset, and in the global
+   * configuration otherwise. When the preset (or a preset it is inherited
+   * by) is the current mode, `apply` writes the change to the
+   * configuration files in the same operation; otherwise it is applied on
+   * the next start.
+   *
+   * @param modeName - The preset to edit
+   * @param target - The agent tree: `opencode` or `oh-my-opencode`
+   * @param agentPath - Dot-separated agent path, e.g. `agents.oracle`
+   * @param settings - Settings to set, such as `model` and `variant`
+   * @param options - Set options
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.setAgent(
+   *   'economy',
+   *   'oh-my-opencode',
+   *   'agents.oracle',
+   *   { model: 'opencode/glm-4.7-free' },
+   *   { apply: true }
+   * );
+   * ```
+   */
+  async setAgent(
+    modeName: string,
+    target: PresetTarget,
+    agentPath: string,
+    settings: ModelConfig,
+    options: SetAgentOptions = {}
+  ): Promise<string> {
+    const path = agentPath.split('.')
+    if (path.some((key) => key.trim() === '')) {
+      return `Invalid agent path "${agentPath}". Use dot-separated names, e.g. "agents.oracle".`
+    }
+    if (Object.keys(settings).length === 0) {
+      return 'Nothing to set. Pass a model, a variant or other properties.'
+    }
+    const initial = await this.ensureConfig()
+    if (!initial.presets[modeName]) {
+      const available = Object.keys(initial.presets).join(', ')
+      return `Mode "${modeName}" not found. Available modes: ${available}`
+    }
+
+    let plan: PlannedFile[]
+    let active = false
+    try {
+      plan = await withConfigLock(async () => {
+        const config = await this.loadConfig()
+        const layers = await this.ensureLayers()
+        const resolved = config.presets[modeName]
+        if (!resolved) {
+          throw new Error('it was removed by another process')
+        }
+
+        // Check the agent as it will be resolved, including inherited values
+        const agent = path.reduce<unknown>(
+          (node, key) => (isObject(node) ? node[key] : undefined),
+          setAgentSettings(resolved[target] ?? {}, path, settings)
+        )
+        if (!isObject(agent) || typeof agent.model !== 'string') {
+          throw new Error(`"${agentPath}" has no model; pass a model as well`)
+        }
 
-      // Recursively merge preset into existing config
-      deepMergeModel(ohMyConfig as Record<string, unknown>, preset)
+        const inProject =
+          layers.project?.presets?.[modeName] !== undefined &&
+          layers.projectPath !== null
+        const layer: ProjectModeSwitcherConfig =
+          inProject && layers.project ? layers.project : layers.global
+        const preset = layer.presets?.[modeName] ?? {}
+        const updated: ProjectModeSwitcherConfig = {
+          ...layer,
+          presets: {
+            ...layer.presets,
+            [modeName]: {
+              ...preset,
+              [target]: setAgentSettings(preset[target] ?? {}, path, settings),
+            },
+          },
+        }
+        const global = inProject
+          ? layers.global
+          : (updated as ModeSwitcherConfig)
+        const project = inProject ? updated : layers.project
+
+        active = getInheritanceChain(
+          config.presets,
+          config.currentMode
+        ).includes(modeName)
+        let presetFiles: PlannedFile[] = []
+        if (active && options.apply) {
+          const { config: merged } = mergeConfigLayers({
+            global,
+            project,
+            projectPath: layers.projectPath,
+          })
+          presetFiles = await this.planPresetFiles(
+            resolvePreset(merged.presets, config.currentMode),
+            config
+          )
+        }
 
-      await saveOhMyOpencodeConfig(ohMyConfig)
-      return 'updated'
+        return this.commitLayers(
+          global,
+          project,
+          presetFiles,
+          `set ${target} ${agentPath} in ${modeName}`
+        )
+      })
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
-      return `error: ${message}`
+      return `Failed to update mode "${modeName}": ${message}`
+    }
+
+    const lines = [
+      `Updated ${target} agent "${agentPath}" in ${modeName} mode`,
+      ...Object.entries(settings).map(
+        ([key, value]) =>
+          `  ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+      ),
+      '',
+    ]
+    if (!active) {
+      lines.push(`Takes effect when switching to ${modeName} mode.`)
+    } else if (options.apply) {
+      lines.push(
+        'Results:',
+        ...plan.map(
+          (file) =>
+            `  - ${file.label}: ${file.preview ? 'updated' : (file.skipped ?? 'skipped (not found)')}`
+        ),
+        '',
+        'Note: Restart opencode to apply changes.'
+      )
+    } else {
+      lines.push(
+        'The mode is active: the change is applied on the next opencode start, or now with apply.'
+      )
+    }
+    return lines.join('\n')
+  }
+
+  /**
+   * Gets a formatted list of configuration snapshots available for rollback.
+   *
+   * @returns Promise resolving to the formatted snapshot list
+   * @example
+   * ```typescript
+   * console.log(await manager.listBackups());
+   * // Output:
+   * // Available snapshots (newest first):
+   * // - 2026-01-15T09-30-00-000Z: switch to economy [opencode.json, agent-mode-switcher.json]
+   * ```
+   */
+  async listBackups(): Promise<string> {
+    const snapshots = await listSnapshots()
+    if (snapshots.length === 0) {
+      return 'No snapshots available.'
+    }
+
+    const lines = snapshots.map((snapshot) => {
+      const files = snapshot.files.map((f) => basename(f.path)).join(', ')
+      return `- ${snapshot.id}: ${snapshot.reason} [${files}]`
+    })
+    return ['Available snapshots (newest first):', ...lines].join('\n')
+  }
+
+  /**
+   * Restores all files of a configuration snapshot.
+   *
+   * The current state of the affected files is snapshotted first, so a
+   * rollback can itself be rolled back. The plugin configuration is
+   * reloaded afterwards, which restores the snapshot's `currentMode`.
+   *
+   * @param snapshotId - Identifier of the snapshot to restore
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.rollback('2026-01-15T09-30-00-000Z');
+   * console.log(result);
+   * ```
+   */
+  async rollback(snapshotId: string): Promise<string> {
+    await this.ensureConfig()
+    const snapshot = (await listSnapshots()).find((s) => s.id === snapshotId)
+    if (!snapshot) {
+      return `Snapshot "${snapshotId}" not found.\n\n${await this.listBackups()}`
+    }
+
+    try {
+      await withConfigLock(async () => {
+        // Keep one extra snapshot so the restored one is not rotated out
+        await this.snapshotBeforeWrite(
+          snapshot.files.map((f) => f.path),
+          `before rollback to ${snapshot.id}`,
+          1
+        )
+        await restoreSnapshot(snapshot.id)
+        await this.loadConfig()
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return `Failed to restore snapshot "${snapshot.id}": ${message}`
+    }
+
+    this.client.tui
+      .showToast({
+        body: {
+          title: 'Configuration Restored',
+          message: `Restored snapshot "${snapshot.id}". Restart opencode to apply.`,
+          variant: 'warning',
+          duration: 5000,
+        },
+      })
+      .catch(() => {})
+
+    return [
+      `Restored snapshot ${snapshot.id} (${snapshot.reason})`,
+      '',
+      'Restored files:',
+      ...snapshot.files.map((f) => `  - ${f.path}`),
+      '',
+      `Current mode: ${await this.getCurrentMode()}`,
+      '',
+      'Note: Restart opencode to apply changes.',
+    ].join('\n')
+  }
+
+  /**
+   * Switches the mode for a single session without touching any files.
+   *
+   * The override takes effect immediately for new messages in the session
+   * (applied by {@link applySessionModel} from the `chat.message` hook) and
+   * is forgotten when the session is deleted or OpenCode exits. The
+   * `currentMode` in agent-mode-switcher.json is left untouched. Mode
+   * names are matched as in {@link switchMode}.
+   *
+   * @param sessionID - The session to override
+   * @param requestedMode - The name of the mode to use for the session
+   * @returns Promise resolving to a formatted result message
+   * @example
+   * ```typescript
+   * const result = await manager.switchSessionMode('ses_123', 'economy');
+   * console.log(result);
+   * // Output:
+   * // Switched this session to economy mode
+   * // Cost-efficient free model for routine tasks
+   * //
+   * // Note: Applies to new messages in this session only.
+   * ```
+   */
+  async switchSessionMode(
+    sessionID: string,
+    requestedMode: string
+  ): Promise<string> {
+    const config = await this.ensureConfig()
+    const names = Object.keys(config.presets)
+    const match = matchModeName(
+      requestedMode,
+      names,
+      getPresetAliases(config.presets)
+    )
+    const modeName = match.name
+    const preset = modeName !== undefined && config.presets[modeName]
+
+    if (modeName === undefined || !preset) {
+      return formatUnknownMode(requestedMode, match, names)
+    }
+
+    this.sessionModes.set(sessionID, modeName)
+
+    this.client.tui
+      .showToast({
+        body: {
+          title: 'Session Mode Switched',
+          message: `This session now uses "${modeName}".`,
+          variant: 'info',
+          duration: 5000,
+        },
+      })
+      .catch(() => {})
+
+    return [
+      `Switched this session to ${modeName} mode`,
+      preset.description,
+      '',
+      'Note: Applies to new messages in this session only.',
+    ].join('\n')
+  }
+
+  /**
+   * Overrides the model of an incoming message with the session's mode.
+   *
+   * Called from the `chat.message` hook. If the session has a mode
+   * override, the message model is replaced with the model the preset
+   * assigns to the message's agent. Messages in sessions without an
+   * override are left unchanged.
+   *
+   * @param sessionID - The session the message belongs to
+   * @param message - The user message to modify (in-place)
+   */
+  async applySessionModel(
+    sessionID: string,
+    message: UserMessage
+  ): Promise<void> {
+    const modeName = this.sessionModes.get(sessionID)
+    if (!modeName) {
+      return
+    }
+
+    const config = await this.ensureConfig()
+    const preset = config.presets[modeName]
+    if (!preset) {
+      return
+    }
+
+    const model = resolveAgentModel(preset, message.agent)
+    const parsed = model ? parseModelString(model) : null
+    if (parsed) {
+      message.model = parsed
+    }
+  }
+
+  /**
+   * Forgets the mode override, provider and failing request of a session.
+   *
+   * @param sessionID - The session whose override should be removed
+   */
+  clearSessionMode(sessionID: string): void {
+    this.sessionModes.delete(sessionID)
+    this.sessionProviders.delete(sessionID)
+    this.failingSessions.delete(sessionID)
+  }
+
+  /**
+   * Formats a dry-run report of a mode switch.
+   *
+   * Each file is rendered exactly as {@link switchMode} would save it, and
+   * the difference to the current content is shown as a unified diff, so
+   * comment and formatting changes are visible too.
+   *
+   * @param modeName - The name of the mode to preview
+   * @param preset - The preset of the mode
+   * @param plan - The planned file writes
+   * @returns The formatted dry-run report
+   * @private
+   */
+  private formatDryRun(
+    modeName: string,
+    preset: ModePreset,
+    plan: PlannedFile[]
+  ): string {
+    const sections = plan.map((file) => {
+      if (!file.preview) {
+        return `${file.label}: ${file.skipped ?? 'skipped (not found)'}`
+      }
+      const { path, before, after } = file.preview
+      return (
+        createUnifiedDiff(path, before, after) || `${file.label}: no changes`
+      )
+    })
+
+    return [
+      `Dry run: switch to ${modeName} mode (no files written)`,
+      preset.description,
+      '',
+      sections.join('\n\n'),
+    ].join('\n')
+  }
+
+  /**
+   * Formats a failed mode switch.
+   *
+   * @param modeName - The mode that could not be applied
+   * @param error - The error raised while writing
+   * @returns A message describing what failed and what was rolled back
+   * @private
+   */
+  private formatSwitchFailure(modeName: string, error: unknown): string {
+    if (!(error instanceof TransactionError)) {
+      const message = error instanceof Error ? error.message : String(error)
+      return `Failed to switch to ${modeName} mode: ${message}\nNo files were changed.`
+    }
+
+    const lines = [`Failed to switch to ${modeName} mode.`, '', error.message]
+    if (error.rolledBack.length > 0) {
+      lines.push(
+        '',
+        'Rolled back:',
+        ...error.rolledBack.map((path) => `  - ${path}`)
+      )
     }
+    if (error.restoreFailures.length > 0) {
+      lines.push(
+        '',
+        'Could not roll back (restore from a snapshot with mode_rollback):',
+        ...error.restoreFailures.map((path) => `  - ${path}`)
+      )
+    } else {
+      lines.push('', 'No changes were applied.')
+    }
+    return lines.join('\n')
+  }
+
+  /**
+   * Loads opencode.json and merges the preset into it, without saving.
+   *
+   * @param globalModel - Global model setting (optional)
+   * @param agentPresets - Hierarchical preset structure for agent configuration
+   * @returns Promise resolving to the updated config, or null if the file doesn't exist
+   * @private
+   */
+  private async buildOpencodeUpdate(
+    globalModel: string | undefined,
+    agentPresets: HierarchicalPreset
+  ): Promise<OpencodeConfig | null> {
+    const opencodeConfig = await loadOpencodeConfig()
+
+    if (!opencodeConfig) {
+      return null
+    }
+
+    // Update global model if specified
+    if (globalModel) {
+      opencodeConfig.model = globalModel
+    }
+
+    // Agent section: recursively merge preset into existing config
+    opencodeConfig.agent = opencodeConfig.agent || {}
+    deepMergeModel(
+      opencodeConfig.agent as Record<string, unknown>,
+      agentPresets
+    )
+
+    return opencodeConfig
+  }
+
+  /**
+   * Loads oh-my-opencode.json and merges the preset into it, without saving.
+   *
+   * @param preset - Hierarchical preset structure for oh-my-opencode configuration
+   * @returns Promise resolving to the updated config, or null if the file doesn't exist
+   * @private
+   */
+  private async buildOhMyOpencodeUpdate(
+    preset: HierarchicalPreset
+  ): Promise<OhMyOpencodeConfig | null> {
+    const ohMyConfig = await loadOhMyOpencodeConfig()
+
+    if (!ohMyConfig) {
+      return null
+    }
+
+    // Recursively merge preset into existing config
+    deepMergeModel(ohMyConfig as Record<string, unknown>, preset)
+
+    return ohMyConfig
   }
 
   /**
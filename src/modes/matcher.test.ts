@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test'
+import { matchModeName } from './matcher.ts'
+
+describe('matcher', () => {
+  const names = ['performance', 'economy', 'eco-plus']
+
+  test('returns exact names unchanged', () => {
+    expect(matchModeName('economy', names)).toEqual({
+      name: 'economy',
+      suggestions: [],
+    })
+  })
+
+  test('ignores case', () => {
+    expect(matchModeName('Performance', names).name).toBe('performance')
+  })
+
+  test('resolves a unique prefix', () => {
+    expect(matchModeName('perf', names).name).toBe('performance')
+  })
+
+  test('suggests every preset sharing an ambiguous prefix', () => {
+    expect(matchModeName('eco', names)).toEqual({
+      suggestions: ['economy', 'eco-plus'],
+    })
+  })
+
+  test('resolves small typos', () => {
+    expect(matchModeName('economny', names).name).toBe('economy')
+    expect(matchModeName('preformance', names).name).toBe('performance')
+  })
+
+  test('does not match unrelated names', () => {
+    expect(matchModeName('fast', names)).toEqual({ suggestions: [] })
+    expect(matchModeName('', names)).toEqual({ suggestions: [] })
+  })
+
+  test('resolves aliases like names', () => {
+    const aliases = { cheap: 'economy', p: 'performance' }
+
+    expect(matchModeName('cheap', names, aliases).name).toBe('economy')
+    expect(matchModeName('P', names, aliases).name).toBe('performance')
+    expect(matchModeName('chep', names, aliases).name).toBe('economy')
+  })
+
+  test('suggests names that are equally close', () => {
+    expect(matchModeName('fest', ['fast', 'best'])).toEqual({
+      suggestions: ['fast', 'best'],
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Matching of mistyped mode names.
+ *
+ * Mode names come from the LLM or from `/mode <name>` arguments, so near
+ * misses such as `Economy`, `perf` or `economny` are resolved to the preset
+ * they clearly refer to instead of failing. Preset aliases are matched
+ * like names.
+ *
+ * @module modes/matcher
+ */
+
+/**
+ * Result of matching a mode name against the known presets.
+ */
+export interface ModeNameMatch {
+  /** The preset the name refers to, if it is unambiguous */
+  name?: string
+  /** Candidate presets when the name is ambiguous */
+  suggestions: string[]
+}
+
+/**
+ * Computes the Levenshtein distance between two strings.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character edits turning `a` into `b`
+ * @private
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + substitution
+      )
+    }
+    previous = current
+  }
+  return previous[b.length] ?? 0
+}
+
+/**
+ * Gets the number of typos tolerated for a name.
+ *
+ * @param name - The typed name
+ * @returns 1 for short names, 2 for names of 6 or more characters
+ * @private
+ */
+function maxTypos(name: string): number {
+  return name.length >= 6 ? 2 : 1
+}
+
+/**
+ * Matches a possibly mistyped mode name against the known presets.
+ *
+ * Tries, in order: the exact name or alias, the name or alias ignoring
+ * case, a unique prefix (e.g. `perf`), and the closest name or alias
+ * within a small number of typos. When several presets match equally
+ * well, none is chosen and they are returned as suggestions.
+ *
+ * @param input - The requested mode name
+ * @param names - Names of the available presets
+ * @param aliases - Preset names by alias (see `getPresetAliases`)
+ * @returns The matched preset name, or suggestions if there is none
+ * @example
+ * ```typescript
+ * matchModeName('perf', ['performance', 'economy'])
+ * // Returns: { name: 'performance', suggestions: [] }
+ * matchModeName('eco', ['economy', 'eco-plus'])
+ * // Returns: { suggestions: ['economy', 'eco-plus'] }
+ * matchModeName('cheap', ['performance', 'economy'], { cheap: 'economy' })
+ * // Returns: { name: 'economy', suggestions: [] }
+ * ```
+ */
+export function matchModeName(
+  input: string,
+  names: string[],
+  aliases: Record<string, string> = {}
+): ModeNameMatch {
+  if (names.includes(input)) {
+    return { name: input, suggestions: [] }
+  }
+  const aliased = aliases[input]
+  if (aliased !== undefined && names.includes(aliased)) {
+    return { name: aliased, suggestions: [] }
+  }
+
+  const typed = input.trim().toLowerCase()
+  if (typed === '') {
+    return { suggestions: [] }
+  }
+  // Every name and alias, with the preset it refers to
+  const keys = [
+    ...names.map((name) => ({ key: name.toLowerCase(), name })),
+    ...Object.entries(aliases)
+      .filter(([, name]) => names.includes(name))
+      .map(([alias, name]) => ({ key: alias.toLowerCase(), name })),
+  ]
+  const pick = (candidates: { name: string }[]): ModeNameMatch | undefined => {
+    const matched = [...new Set(candidates.map(({ name }) => name))]
+    if (matched.length === 1) {
+      return { name: matched[0], suggestions: [] }
+    }
+    return matched.length > 1 ? { suggestions: matched } : undefined
+  }
+
+  const byCase = pick(keys.filter(({ key }) => key === typed))
+  if (byCase) return byCase
+
+  const byPrefix = pick(keys.filter(({ key }) => key.startsWith(typed)))
+  if (byPrefix) return byPrefix
+
+  const distances = keys.map(({ key, name }) => ({
+    name,
+    distance: editDistance(typed, key),
+  }))
+  const best = Math.min(...distances.map(({ distance }) => distance))
+  if (best > maxTypos(typed)) {
+    return { suggestions: [] }
+  }
+  return (
+    pick(distances.filter(({ distance }) => distance === best)) ?? {
+      suggestions: [],
+    }
+  )
+}
@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test'
+import type { ScheduleConfig } from '../config/types.ts'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import {
+  formatScheduleTime,
+  getNextScheduleChange,
+  getScheduleSlot,
+  readAppliedScheduleSlot,
+  writeAppliedScheduleSlot,
+} from './schedule.ts'
+
+describe('schedule', () => {
+  // 2026-10-19 is a Monday
+  const schedule: ScheduleConfig = {
+    defaultMode: 'performance',
+    windows: [
+      {
+        mode: 'economy',
+        days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+        start: '09:00',
+        end: '17:00',
+      },
+      { mode: 'night', days: ['fri'], start: '22:00', end: '06:00' },
+    ],
+  }
+
+  describe('getScheduleSlot', () => {
+    test('returns the active window', () => {
+      expect(
+        getScheduleSlot(schedule, new Date('2026-10-19T10:30:00Z'), 'UTC')
+      ).toEqual({
+        mode: 'economy',
+        key: '0@2026-10-19',
+        window: schedule.windows[0],
+      })
+    })
+
+    test('ends windows at their end time', () => {
+      expect(
+        getScheduleSlot(schedule, new Date('2026-10-19T17:00:00Z'), 'UTC')
+      ).toEqual({ mode: 'performance', key: 'default' })
+    })
+
+    test('skips days the window does not start on', () => {
+      expect(
+        getScheduleSlot(schedule, new Date('2026-10-24T10:30:00Z'), 'UTC').mode
+      ).toBe('performance')
+    })
+
+    test('continues windows spanning midnight on the next day', () => {
+      const slot = getScheduleSlot(
+        schedule,
+        new Date('2026-10-24T03:00:00Z'),
+        'UTC'
+      )
+      expect(slot.mode).toBe('night')
+      expect(slot.key).toBe('1@2026-10-23')
+    })
+
+    test('reads the windows in the given time zone', () => {
+      // 08:30 UTC is 10:30 in Berlin (summer time)
+      expect(
+        getScheduleSlot(
+          schedule,
+          new Date('2026-10-19T08:30:00Z'),
+          'Europe/Berlin'
+        ).mode
+      ).toBe('economy')
+    })
+
+    test('continues windows after a day shortened by daylight saving', () => {
+      // Berlin skips 02:00-03:00 on Sunday 2026-03-29
+      const sunday: ScheduleConfig = {
+        windows: [
+          { mode: 'night', days: ['sun'], start: '22:00', end: '06:00' },
+        ],
+      }
+      // Monday 00:30 in Berlin
+      const slot = getScheduleSlot(
+        sunday,
+        new Date('2026-03-29T22:30:00Z'),
+        'Europe/Berlin'
+      )
+      expect(slot.key).toBe('0@2026-03-29')
+    })
+
+    test('has no mode outside windows without a default mode', () => {
+      const { defaultMode: _default, ...withoutDefault } = schedule
+      expect(
+        getScheduleSlot(withoutDefault, new Date('2026-10-19T20:00:00Z'), 'UTC')
+      ).toEqual({ mode: undefined, key: 'default' })
+    })
+  })
+
+  describe('getNextScheduleChange', () => {
+    test('finds the next boundary with a different mode', () => {
+      expect(
+        getNextScheduleChange(schedule, new Date('2026-10-19T10:30:00Z'), 'UTC')
+      ).toEqual({
+        mode: 'performance',
+        at: new Date('2026-10-19T17:00:00Z'),
+      })
+    })
+
+    test('finds boundaries across a daylight saving change', () => {
+      expect(
+        getNextScheduleChange(
+          schedule,
+          new Date('2026-03-28T12:00:00Z'),
+          'Europe/Berlin'
+        )
+      ).toEqual({
+        mode: 'economy',
+        // Monday 09:00 in Berlin summer time
+        at: new Date('2026-03-30T07:00:00Z'),
+      })
+    })
+
+    test('returns undefined without changes', () => {
+      expect(
+        getNextScheduleChange(
+          { windows: [{ mode: 'economy', start: '00:00', end: '23:59' }] },
+          new Date('2026-10-19T10:30:00Z'),
+          'UTC'
+        )
+      ).toBeUndefined()
+    })
+  })
+
+  test('formatScheduleTime shows weekday and time in the time zone', () => {
+    expect(
+      formatScheduleTime(new Date('2026-10-19T17:05:00Z'), 'Asia/Tokyo')
+    ).toBe('Tue 02:05')
+  })
+
+  describe('applied slot state', () => {
+    const testDir = useTempConfigDir('schedule')
+
+    test('is undefined until a slot is recorded', async () => {
+      expect(await readAppliedScheduleSlot()).toBeUndefined()
+
+      await writeAppliedScheduleSlot('0@2026-10-19')
+      expect(await readAppliedScheduleSlot()).toBe('0@2026-10-19')
+    })
+  })
+})
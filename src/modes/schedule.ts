@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Time-based mode switching.
+ *
+ * A schedule lists recurring windows (weekdays and a time range in the
+ * configured time zone, see config/timezone) with the mode active during
+ * each window. The plugin evaluates the
+ * schedule on startup and periodically, and switches modes when a window
+ * boundary is crossed. The last applied window is recorded in
+ * `agent-mode-switcher-schedule.json`, so a mode chosen manually stays
+ * active until the next boundary, also across restarts.
+ *
+ * @module modes/schedule
+ */
+
+import { isObject } from '../config/guards.ts'
+import { getScheduleStatePath } from '../config/paths.ts'
+import { readJsonState, writeJsonState } from '../config/state.ts'
+import {
+  type LocalDay,
+  type LocalTime,
+  toLocalTime,
+} from '../config/timezone.ts'
+import type {
+  ScheduleConfig,
+  ScheduleWindow,
+  Weekday,
+} from '../config/types.ts'
+
+/**
+ * How far ahead {@link getNextScheduleChange} looks for a change.
+ */
+const LOOKAHEAD_DAYS = 7
+
+/**
+ * Weekdays in the order of `Date.prototype.getUTCDay`.
+ */
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+/**
+ * The part of a schedule in effect at a point in time.
+ */
+export interface ScheduleSlot {
+  /** Mode of the slot; undefined outside every window without a default mode */
+  mode?: string
+  /** Identifies this occurrence of the slot, e.g. "0@2026-10-19" */
+  key: string
+  /** The active window; undefined outside every window */
+  window?: ScheduleWindow
+}
+
+/**
+ * An upcoming mode change of a schedule.
+ */
+export interface ScheduleChange {
+  /** Mode the schedule switches to */
+  mode: string
+  /** Time of the switch */
+  at: Date
+}
+
+/**
+ * Moves a calendar day by a number of days.
+ *
+ * Works on the calendar date alone, so days are not assumed to be 24
+ * hours long, which they are not when daylight saving time changes.
+ *
+ * @param day - The calendar day
+ * @param days - Number of days to move, negative to move back
+ * @returns The resulting calendar day
+ * @private
+ */
+function addDays(day: LocalDay, days: number): LocalDay {
+  const [year = 0, month = 1, date = 1] = day.date.split('-').map(Number)
+  const result = new Date(Date.UTC(year, month - 1, date + days))
+  return {
+    date: result.toISOString().slice(0, 10),
+    weekday: WEEKDAYS[result.getUTCDay()] ?? day.weekday,
+  }
+}
+
+/**
+ * Converts a wall-clock time in a time zone to a point in time.
+ *
+ * A time skipped by a daylight saving change resolves to a point next to
+ * the gap.
+ *
+ * @param date - Calendar date, "YYYY-MM-DD"
+ * @param minutes - Minutes since midnight
+ * @param timezone - IANA time zone (default: the system time zone)
+ * @returns The point in time
+ * @private
+ */
+function fromLocalTime(
+  date: string,
+  minutes: number,
+  timezone: string | undefined
+): Date {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+  // The offset at the wall-clock time read as UTC is close to the actual
+  // offset; a second pass corrects it across an offset change
+  let at = wallClock
+  for (let pass = 0; pass < 2; pass++) {
+    const local = toLocalTime(new Date(at), timezone)
+    const [y = 0, m = 1, d = 1] = local.date.split('-').map(Number)
+    const offset = Date.UTC(y, m - 1, d, 0, local.minutes) - at
+    at = wallClock - offset
+  }
+  return new Date(at)
+}
+
+/**
+ * Parses a time of day.
+ *
+ * @param value - Time in the format "HH:MM"
+ * @returns Minutes since midnight
+ * @private
+ */
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number)
+  return (hours ?? 0) * 60 + (minutes ?? 0)
+}
+
+/**
+ * Gets the date a window occurrence active at a time started on.
+ *
+ * @param window - The window
+ * @param now - Local time now
+ * @returns The start date, or undefined if the window is not active
+ * @private
+ */
+function getWindowStart(
+  window: ScheduleWindow,
+  now: LocalTime
+): string | undefined {
+  const start = parseTimeOfDay(window.start)
+  const end = parseTimeOfDay(window.end)
+  const yesterday = addDays(now, -1)
+  const startsOn = (day: LocalDay) =>
+    !window.days || window.days.includes(day.weekday)
+
+  if (start < end) {
+    const active = startsOn(now) && now.minutes >= start && now.minutes < end
+    return active ? now.date : undefined
+  }
+  // The window spans midnight: it started today, or yesterday
+  if (startsOn(now) && now.minutes >= start) {
+    return now.date
+  }
+  if (startsOn(yesterday) && now.minutes < end) {
+    return yesterday.date
+  }
+  return undefined
+}
+
+/**
+ * Gets the part of a schedule in effect at a point in time.
+ *
+ * Windows are checked in order and the first active one wins. Outside
+ * every window, the slot has the schedule's `defaultMode`.
+ *
+ * @param schedule - The schedule
+ * @param at - The point in time
+ * @param timezone - IANA time zone of the windows (default: the system time zone)
+ * @returns The slot in effect
+ * @example
+ * ```typescript
+ * getScheduleSlot(
+ *   { windows: [{ mode: 'economy', days: ['mon'], start: '09:00', end: '17:00' }] },
+ *   new Date('2026-10-19T10:00:00'),
+ *   undefined
+ * )
+ * // Returns: { mode: 'economy', key: '0@2026-10-19', window: {...} }
+ * ```
+ */
+export function getScheduleSlot(
+  schedule: ScheduleConfig,
+  at: Date,
+  timezone: string | undefined
+): ScheduleSlot {
+  const now = toLocalTime(at, timezone)
+
+  for (const [index, window] of schedule.windows.entries()) {
+    const startDate = getWindowStart(window, now)
+    if (startDate !== undefined) {
+      return { mode: window.mode, key: `${index}@${startDate}`, window }
+    }
+  }
+  return { mode: schedule.defaultMode, key: 'default' }
+}
+
+/**
+ * Finds the next time the schedule switches to a different mode.
+ *
+ * The slot can only change where a window starts or ends, so only those
+ * times are evaluated.
+ *
+ * @param schedule - The schedule
+ * @param from - The point in time to look ahead from
+ * @param timezone - IANA time zone of the windows (default: the system time zone)
+ * @returns The next change within a week, or undefined if there is none
+ */
+export function getNextScheduleChange(
+  schedule: ScheduleConfig,
+  from: Date,
+  timezone: string | undefined
+): ScheduleChange | undefined {
+  const current = getScheduleSlot(schedule, from, timezone)
+  const today = toLocalTime(from, timezone)
+  const until = from.getTime() + LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000
+  const times = new Set(
+    schedule.windows.flatMap((window) => [
+      parseTimeOfDay(window.start),
+      parseTimeOfDay(window.end),
+    ])
+  )
+
+  const boundaries: Date[] = []
+  for (let days = 0; days <= LOOKAHEAD_DAYS; days++) {
+    const { date } = addDays(today, days)
+    for (const minutes of times) {
+      const at = fromLocalTime(date, minutes, timezone)
+      if (at > from && at.getTime() <= until) {
+        boundaries.push(at)
+      }
+    }
+  }
+  boundaries.sort((a, b) => a.getTime() - b.getTime())
+
+  for (const at of boundaries) {
+    const slot = getScheduleSlot(schedule, at, timezone)
+    if (
+      slot.key !== current.key &&
+      slot.mode !== undefined &&
+      slot.mode !== current.mode
+    ) {
+      return { mode: slot.mode, at }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Formats a point in time in the configured time zone.
+ *
+ * @param at - The point in time
+ * @param timezone - IANA time zone (default: the system time zone)
+ * @returns Weekday and time, e.g. "Mon 17:00"
+ */
+export function formatScheduleTime(
+  at: Date,
+  timezone: string | undefined
+): string {
+  const { weekday, minutes } = toLocalTime(at, timezone)
+  const time = [Math.floor(minutes / 60), minutes % 60]
+    .map((value) => String(value).padStart(2, '0'))
+    .join(':')
+  return `${weekday[0]?.toUpperCase()}${weekday.slice(1)} ${time}`
+}
+
+/**
+ * Reads the key of the last applied schedule slot.
+ *
+ * @returns Promise resolving to the slot key, or undefined if none was recorded
+ */
+export async function readAppliedScheduleSlot(): Promise<string | undefined> {
+  const state = await readJsonState(
+    getScheduleStatePath(),
+    (value): value is { slot: string } =>
+      isObject(value) && typeof value.slot === 'string'
+  )
+  return state?.slot
+}
+
+/**
+ * Records the key of the applied schedule slot.
+ *
+ * @param key - The slot key (see {@link ScheduleSlot.key})
+ * @returns Promise resolving when the state is written
+ */
+export async function writeAppliedScheduleSlot(key: string): Promise<void> {
+  await writeJsonState(getScheduleStatePath(), { slot: key })
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach } from 'bun:test'
+import { mkdirSync, rmSync } from 'node:fs'
+import { clearContentCache } from '../config/loader.ts'
+
+/**
+ * Environment variable pointing the config directory at the test directory.
+ */
+export const CONFIG_DIR_ENV = 'OPENCODE_CONFIG_DIR'
+
+/**
+ * Points the OpenCode config directory at an empty temporary directory.
+ *
+ * Registers `beforeEach`/`afterEach` hooks in the calling `describe`
+ * block: before each test the directory is recreated and
+ * `OPENCODE_CONFIG_DIR` is set to it; afterwards the directory is removed
+ * and the previous value is restored.
+ *
+ * @param name - Name of the directory, unique per test file
+ * @returns Absolute path of the directory
+ *
+ * @example
+ * ```typescript
+ * describe('backup', () => {
+ *   const testDir = useTempConfigDir('backup')
+ *   test('...', () => {
+ *     // getOpencodeConfigDir() === testDir
+ *   })
+ * })
+ * ```
+ */
+export function useTempConfigDir(name: string): string {
+  const dir = `/tmp/opencode-agent-modes-${name}-test`
+  let savedConfigDir: string | undefined
+
+  beforeEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    mkdirSync(dir, { recursive: true })
+    savedConfigDir = process.env[CONFIG_DIR_ENV]
+    process.env[CONFIG_DIR_ENV] = dir
+    clearContentCache()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    if (savedConfigDir === undefined) {
+      delete process.env[CONFIG_DIR_ENV]
+    } else {
+      process.env[CONFIG_DIR_ENV] = savedConfigDir
+    }
+  })
+
+  return dir
+}
@@ -1,5 +1,6 @@
 import { mock } from 'bun:test'
 import type { OpencodeClient } from '@opencode-ai/sdk'
+import type { UsageRecord } from '../usage/tracker.ts'
 
 /**
  * Virtual file system for testing.
@@ -307,3 +308,34 @@ export const sampleConfigs = {
     },
   },
 }
+
+/**
+ * Create a usage record for testing.
+ *
+ * All token counts and the cost default to zero.
+ *
+ * @param overrides - Fields differing from the defaults
+ * @returns A usage record of an anthropic message completed at 1000 ms
+ *
+ * @example
+ * ```typescript
+ * const record = createUsageRecord({ messageID: 'msg_1', input: 100 })
+ * ```
+ */
+export function createUsageRecord(
+  overrides: Partial<UsageRecord> = {}
+): UsageRecord {
+  return {
+    messageID: 'msg_1',
+    provider: 'anthropic',
+    model: 'model',
+    at: 1_000,
+    input: 0,
+    output: 0,
+    reasoning: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    cost: 0,
+    ...overrides,
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'bun:test'
+import type { BudgetConfig } from '../config/types.ts'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { createUsageRecord } from '../test-utils/mocks.ts'
+import {
+  type SpendState,
+  addSpend,
+  getSpendSummary,
+  readSpendState,
+  updateExhaustedBudgets,
+  writeSpendState,
+} from './budget.ts'
+
+describe('budget', () => {
+  const emptyState = (): SpendState => ({
+    days: {},
+    counted: {},
+    exhausted: [],
+  })
+  const monday = new Date(2026, 9, 19, 10)
+  const tuesday = new Date(2026, 9, 20, 10)
+
+  /**
+   * Creates a usage record completed at the given local time.
+   */
+  const createRecord = (messageID: string, at: Date, model = 'opus') =>
+    createUsageRecord({ messageID, at: at.getTime(), model })
+
+  describe('addSpend', () => {
+    test('adds the cost to the day and model', () => {
+      const state = addSpend(emptyState(), createRecord('msg_1', monday), 1.5)
+
+      expect(state?.days).toEqual({ '2026-10-19': { 'anthropic/opus': 1.5 } })
+    })
+
+    test('counts each message once', () => {
+      const record = createRecord('msg_1', monday)
+      const state = addSpend(emptyState(), record, 1.5)
+
+      expect(state && addSpend(state, record, 1.5)).toBeNull()
+    })
+
+    test('drops days before the previous month', () => {
+      const state: SpendState = {
+        ...emptyState(),
+        days: { '2026-08-31': { a: 1 }, '2026-09-01': { a: 2 } },
+      }
+      const updated = addSpend(state, createRecord('msg_1', monday), 1)
+
+      expect(Object.keys(updated?.days ?? {})).toEqual([
+        '2026-09-01',
+        '2026-10-19',
+      ])
+    })
+
+    test('counts days in the given time zone', () => {
+      // 23:30 UTC on Monday is 01:30 on Tuesday in Berlin
+      const record = createUsageRecord({
+        messageID: 'msg_1',
+        at: Date.parse('2026-10-19T23:30:00Z'),
+      })
+
+      expect(addSpend(emptyState(), record, 1, 'UTC')?.days).toEqual({
+        '2026-10-19': { 'anthropic/model': 1 },
+      })
+      expect(addSpend(emptyState(), record, 1, 'Europe/Berlin')?.days).toEqual({
+        '2026-10-20': { 'anthropic/model': 1 },
+      })
+    })
+
+    test('keeps the previous month across a year boundary', () => {
+      const state: SpendState = {
+        ...emptyState(),
+        days: { '2025-11-30': { a: 1 }, '2025-12-01': { a: 2 } },
+      }
+      const record = createUsageRecord({
+        messageID: 'msg_1',
+        at: Date.parse('2026-01-05T12:00:00Z'),
+      })
+
+      expect(
+        Object.keys(addSpend(state, record, 1, 'UTC')?.days ?? {})
+      ).toEqual(['2025-12-01', '2026-01-05'])
+    })
+  })
+
+  test('getSpendSummary sums today and this month by model', () => {
+    const state: SpendState = {
+      ...emptyState(),
+      days: {
+        '2026-09-30': { 'anthropic/opus': 100 },
+        '2026-10-19': { 'anthropic/opus': 2, 'anthropic/haiku': 1 },
+        '2026-10-20': { 'anthropic/haiku': 4 },
+      },
+    }
+
+    expect(getSpendSummary(state, tuesday)).toEqual({
+      today: 4,
+      month: 7,
+      byModel: [
+        ['anthropic/haiku', 5],
+        ['anthropic/opus', 2],
+      ],
+    })
+  })
+
+  describe('updateExhaustedBudgets', () => {
+    const budget: BudgetConfig = { daily: 5, monthly: 100, mode: 'economy' }
+
+    test('reports a budget once per period', () => {
+      const state: SpendState = {
+        ...emptyState(),
+        days: { '2026-10-19': { 'anthropic/opus': 6 } },
+      }
+      const first = updateExhaustedBudgets(state, budget, monday)
+      const second = updateExhaustedBudgets(first.state, budget, monday)
+
+      expect(first.exhausted).toEqual([
+        { period: 'daily', budget: 5, spent: 6 },
+      ])
+      expect(second.exhausted).toEqual([])
+    })
+
+    test('reports the daily budget again on the next day', () => {
+      const state: SpendState = {
+        days: {
+          '2026-10-19': { 'anthropic/opus': 6 },
+          '2026-10-20': { 'anthropic/opus': 5 },
+        },
+        counted: {},
+        exhausted: ['2026-10-19'],
+      }
+
+      expect(updateExhaustedBudgets(state, budget, tuesday).exhausted).toEqual([
+        { period: 'daily', budget: 5, spent: 5 },
+      ])
+    })
+  })
+
+  describe('state file', () => {
+    const testDir = useTempConfigDir('budget')
+
+    test('round-trips the spend state', async () => {
+      expect(await readSpendState()).toEqual(emptyState())
+
+      const state = addSpend(emptyState(), createRecord('msg_1', monday), 1)
+      if (!state) throw new Error('expected spend to be added')
+      await writeSpendState(state)
+      expect(await readSpendState()).toEqual(state)
+    })
+  })
+})
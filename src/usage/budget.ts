@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Cost budget tracking.
+ *
+ * The cost of every completed assistant message (see usage/pricing) is
+ * added to the spend of its calendar day and model in
+ * `agent-mode-switcher-spend.json`. Days are read in the configured time
+ * zone, the same as the schedule's (see config/timezone), and kept for the
+ * current and the previous month. A daily or monthly budget is reported
+ * once per day or month when the spend reaches it.
+ *
+ * @module usage/budget
+ */
+
+import { isObject } from '../config/guards.ts'
+import { getSpendStatePath } from '../config/paths.ts'
+import { readJsonState, writeJsonState } from '../config/state.ts'
+import { toLocalTime } from '../config/timezone.ts'
+import type { BudgetConfig } from '../config/types.ts'
+import type { UsageRecord } from './tracker.ts'
+
+/**
+ * How long message IDs are remembered to count each message once.
+ */
+const COUNTED_RETENTION_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Budget period.
+ */
+export type BudgetPeriod = 'daily' | 'monthly'
+
+/**
+ * Persisted spend tracking state.
+ */
+export interface SpendState {
+  /** Spend in USD by day ("YYYY-MM-DD") and model ("provider/model") */
+  days: Record<string, Record<string, number>>
+  /** Completion times of the recently counted messages by ID */
+  counted: Record<string, number>
+  /** Periods whose budget was exhausted ("YYYY-MM-DD" or "YYYY-MM") */
+  exhausted: string[]
+}
+
+/**
+ * Spend in the current day and month.
+ */
+export interface SpendSummary {
+  /** Spend today in USD */
+  today: number
+  /** Spend this month in USD */
+  month: number
+  /** Spend this month in USD by model, highest first */
+  byModel: [string, number][]
+}
+
+/**
+ * A budget exhausted by the latest spend.
+ */
+export interface ExhaustedBudget {
+  period: BudgetPeriod
+  /** The budget in USD */
+  budget: number
+  /** The spend in the period in USD */
+  spent: number
+}
+
+/**
+ * Gets the calendar day of a time.
+ *
+ * @param at - The time
+ * @param timezone - IANA time zone (default: the system time zone)
+ * @returns The day as "YYYY-MM-DD"
+ * @private
+ */
+function toDayKey(at: Date, timezone: string | undefined): string {
+  return toLocalTime(at, timezone).date
+}
+
+/**
+ * Gets the calendar month of a time.
+ *
+ * @param at - The time
+ * @param timezone - IANA time zone (default: the system time zone)
+ * @returns The month as "YYYY-MM"
+ * @private
+ */
+function toMonthKey(at: Date, timezone: string | undefined): string {
+  return toDayKey(at, timezone).slice(0, 7)
+}
+
+/**
+ * Gets the month before a month.
+ *
+ * @param month - The month as "YYYY-MM"
+ * @returns The previous month as "YYYY-MM"
+ * @private
+ */
+function previousMonthKey(month: string): string {
+  const [year = 0, index = 1] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, index - 2, 1)).toISOString().slice(0, 7)
+}
+
+/**
+ * Sums the spend of a day.
+ *
+ * @param models - Spend by model
+ * @returns The total in USD
+ * @private
+ */
+function sum(models: Record<string, number> = {}): number {
+  return Object.values(models).reduce((total, cost) => total + cost, 0)
+}
+
+/**
+ * Adds the cost of a message to the spend.
+ *
+ * Days before the previous month and message IDs older than a day are
+ * dropped.
+ *
+ * @param state - The spend state
+ * @param record - The message
+ * @param cost - Cost of the message in USD (see `calculateCost`)
+ * @param timezone - IANA time zone of the days (default: the system time zone)
+ * @returns The new state, or null if the message was already counted
+ */
+export function addSpend(
+  state: SpendState,
+  record: UsageRecord,
+  cost: number,
+  timezone?: string
+): SpendState | null {
+  if (record.messageID in state.counted) {
+    return null
+  }
+
+  const day = toDayKey(new Date(record.at), timezone)
+  const model = `${record.provider}/${record.model}`
+  const previousMonth = previousMonthKey(day.slice(0, 7))
+  const days = Object.fromEntries(
+    Object.entries(state.days).filter(([key]) => key >= previousMonth)
+  )
+  days[day] = { ...days[day], [model]: (days[day]?.[model] ?? 0) + cost }
+
+  const counted = Object.fromEntries(
+    Object.entries(state.counted).filter(
+      ([, time]) => time >= record.at - COUNTED_RETENTION_MS
+    )
+  )
+  counted[record.messageID] = record.at
+
+  return { ...state, days, counted }
+}
+
+/**
+ * Summarizes the spend in the day and month of a time.
+ *
+ * @param state - The spend state
+ * @param now - The time
+ * @param timezone - IANA time zone of the days (default: the system time zone)
+ * @returns The spend today and this month
+ */
+export function getSpendSummary(
+  state: SpendState,
+  now: Date,
+  timezone?: string
+): SpendSummary {
+  const month = toMonthKey(now, timezone)
+  const byModel: Record<string, number> = {}
+  for (const [day, models] of Object.entries(state.days)) {
+    if (day.startsWith(month)) {
+      for (const [model, cost] of Object.entries(models)) {
+        byModel[model] = (byModel[model] ?? 0) + cost
+      }
+    }
+  }
+  return {
+    today: sum(state.days[toDayKey(now, timezone)]),
+    month: sum(byModel),
+    byModel: Object.entries(byModel).sort(([, a], [, b]) => b - a),
+  }
+}
+
+/**
+ * Updates which budgets are exhausted.
+ *
+ * @param state - The spend state
+ * @param budget - The budget configuration
+ * @param now - The time
+ * @param timezone - IANA time zone of the days (default: the system time zone)
+ * @returns The new state and the budgets exhausted since the last update
+ */
+export function updateExhaustedBudgets(
+  state: SpendState,
+  budget: BudgetConfig,
+  now: Date,
+  timezone?: string
+): { state: SpendState; exhausted: ExhaustedBudget[] } {
+  const summary = getSpendSummary(state, now, timezone)
+  const month = toMonthKey(now, timezone)
+  const periods = [
+    { period: 'daily', key: toDayKey(now, timezone), limit: budget.daily },
+    { period: 'monthly', key: month, limit: budget.monthly },
+  ] as const
+
+  const exhausted: ExhaustedBudget[] = []
+  const keys = state.exhausted.filter((key) => key.startsWith(month))
+  for (const { period, key, limit } of periods) {
+    const spent = period === 'daily' ? summary.today : summary.month
+    if (limit !== undefined && spent >= limit && !keys.includes(key)) {
+      exhausted.push({ period, budget: limit, spent })
+      keys.push(key)
+    }
+  }
+  return { state: { ...state, exhausted: keys }, exhausted }
+}
+
+/**
+ * Reads the spend state.
+ *
+ * @returns Promise resolving to the state, empty if nothing was recorded
+ */
+export async function readSpendState(): Promise<SpendState> {
+  const state = await readJsonState(
+    getSpendStatePath(),
+    (value): value is SpendState =>
+      isObject(value) &&
+      isObject(value.days) &&
+      isObject(value.counted) &&
+      Array.isArray(value.exhausted)
+  )
+  // A missing or unreadable file starts from zero
+  return state ?? { days: {}, counted: {}, exhausted: [] }
+}
+
+/**
+ * Writes the spend state.
+ *
+ * @param state - The spend state
+ * @returns Promise resolving when the state is written
+ */
+export async function writeSpendState(state: SpendState): Promise<void> {
+  await writeJsonState(getSpendStatePath(), state)
+}
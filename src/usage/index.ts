@@ -0,0 +1,3 @@
+export * from './tracker.ts'
+export * from './pricing.ts'
+export * from './budget.ts'
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  DEFAULT_MODEL_PRICES,
+  calculateCost,
+  getModelPrice,
+} from './pricing.ts'
+import type { UsageRecord } from './tracker.ts'
+
+describe('pricing', () => {
+  const record: UsageRecord = {
+    messageID: 'msg_1',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5-20250929',
+    at: 1_000,
+    input: 1_000_000,
+    output: 100_000,
+    reasoning: 100_000,
+    cacheRead: 1_000_000,
+    cacheWrite: 0,
+    cost: 0.5,
+  }
+
+  describe('getModelPrice', () => {
+    test('prices dated snapshots like their model', () => {
+      expect(getModelPrice('anthropic/claude-opus-4-5-20251101')).toBe(
+        DEFAULT_MODEL_PRICES['anthropic/claude-opus-4-5']
+      )
+    })
+
+    test('does not price newer models like older ones', () => {
+      expect(getModelPrice('anthropic/claude-opus-4-6')).toBeUndefined()
+      expect(
+        getModelPrice('anthropic/claude-opus-4-6-20260205')
+      ).toBeUndefined()
+    })
+
+    test('prefers user prices', () => {
+      const price = { input: 1, output: 2 }
+      expect(
+        getModelPrice('anthropic/claude-opus-4-5', {
+          'anthropic/claude-opus-4-5': price,
+        })
+      ).toBe(price)
+    })
+
+    test('does not match other models sharing a prefix', () => {
+      expect(getModelPrice('openai/gpt-5o')).toBeUndefined()
+    })
+  })
+
+  describe('calculateCost', () => {
+    test('prices tokens per million', () => {
+      // 1M input * $3 + 0.2M output * $15 + 1M cache reads * $0.30
+      expect(calculateCost(record)).toBeCloseTo(6.3)
+    })
+
+    test('prices cache tokens at the input price by default', () => {
+      expect(
+        calculateCost(record, {
+          'anthropic/claude-sonnet-4-5': { input: 1, output: 10 },
+        })
+      ).toBeCloseTo(4)
+    })
+
+    test('uses the cost reported by OpenCode without a price', () => {
+      expect(calculateCost({ ...record, provider: 'local' })).toBe(0.5)
+    })
+  })
+})
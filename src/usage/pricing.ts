@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Model pricing.
+ *
+ * Prices are looked up by `provider/model` in the user's `budget.pricing`
+ * first and in the built-in table second. Model IDs must match exactly,
+ * except that dated snapshots (e.g. `claude-opus-4-5-20251101`) share the
+ * price of their model, so a newer model never gets the price of an older
+ * one. The cost of a message whose model has no price is taken from
+ * OpenCode.
+ *
+ * @module usage/pricing
+ */
+
+import type { ModelPrice } from '../config/types.ts'
+import type { UsageRecord } from './tracker.ts'
+
+/**
+ * Date suffix of a model snapshot, e.g. "-20251101".
+ */
+const SNAPSHOT_SUFFIX = /-\d{8}$/
+
+/**
+ * Built-in prices in USD per million tokens.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'anthropic/claude-opus-4-5': {
+    input: 5,
+    output: 25,
+    cacheRead: 0.5,
+    cacheWrite: 6.25,
+  },
+  'anthropic/claude-opus-4-1': {
+    input: 15,
+    output: 75,
+    cacheRead: 1.5,
+    cacheWrite: 18.75,
+  },
+  'anthropic/claude-opus-4': {
+    input: 15,
+    output: 75,
+    cacheRead: 1.5,
+    cacheWrite: 18.75,
+  },
+  'anthropic/claude-sonnet-4-5': {
+    input: 3,
+    output: 15,
+    cacheRead: 0.3,
+    cacheWrite: 3.75,
+  },
+  'anthropic/claude-sonnet-4': {
+    input: 3,
+    output: 15,
+    cacheRead: 0.3,
+    cacheWrite: 3.75,
+  },
+  'anthropic/claude-haiku-4-5': {
+    input: 1,
+    output: 5,
+    cacheRead: 0.1,
+    cacheWrite: 1.25,
+  },
+  'openai/gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'openai/gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  'google/gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+}
+
+/**
+ * Finds the price of a model.
+ *
+ * @param model - The model as "provider/model"
+ * @param overrides - User prices, taking precedence over the built-in ones
+ * @returns The price, or undefined if the model has none
+ * @example
+ * ```typescript
+ * getModelPrice('anthropic/claude-sonnet-4-5-20250929')
+ * // Returns: the price of 'anthropic/claude-sonnet-4-5'
+ * getModelPrice('anthropic/claude-opus-4-6')
+ * // Returns: undefined, not the price of 'anthropic/claude-opus-4'
+ * ```
+ */
+export function getModelPrice(
+  model: string,
+  overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+  const snapshotOf = model.replace(SNAPSHOT_SUFFIX, '')
+  for (const prices of [overrides, DEFAULT_MODEL_PRICES]) {
+    const price = prices[model] ?? prices[snapshotOf]
+    if (price) {
+      return price
+    }
+  }
+  return undefined
+}
+
+/**
+ * Calculates the cost of a message.
+ *
+ * @param record - Tokens used by the message
+ * @param overrides - User prices, taking precedence over the built-in ones
+ * @returns Cost in USD; OpenCode's cost if the model has no price
+ */
+export function calculateCost(
+  record: UsageRecord,
+  overrides?: Record<string, ModelPrice>
+): number {
+  const price = getModelPrice(`${record.provider}/${record.model}`, overrides)
+  if (!price) {
+    return record.cost
+  }
+  return (
+    (record.input * price.input +
+      (record.output + record.reasoning) * price.output +
+      record.cacheRead * (price.cacheRead ?? price.input) +
+      record.cacheWrite * (price.cacheWrite ?? price.input)) /
+    1_000_000
+  )
+}
@@ -0,0 +1,153 @@
+import { describe, expect, test } from 'bun:test'
+import type { AssistantMessage } from '@opencode-ai/sdk'
+import type { UsageLimit } from '../config/types.ts'
+import { useTempConfigDir } from '../test-utils/config-dir.ts'
+import { createUsageRecord } from '../test-utils/mocks.ts'
+import {
+  type UsageState,
+  addUsageRecord,
+  countTokens,
+  getUsageWindowStart,
+  readUsageState,
+  toUsageRecord,
+  updateReachedLimits,
+  writeUsageState,
+} from './tracker.ts'
+
+describe('tracker', () => {
+  const emptyState = (): UsageState => ({ records: [], reached: [] })
+
+  describe('toUsageRecord', () => {
+    const message = {
+      id: 'msg_1',
+      role: 'assistant',
+      providerID: 'anthropic',
+      modelID: 'claude-sonnet-4',
+      time: { created: 1_000 },
+      cost: 0.25,
+      tokens: {
+        input: 10,
+        output: 20,
+        reasoning: 5,
+        cache: { read: 3, write: 4 },
+      },
+    } as AssistantMessage
+
+    test('ignores messages still being generated', () => {
+      expect(toUsageRecord(message)).toBeNull()
+    })
+
+    test('records completed messages', () => {
+      const completed = {
+        ...message,
+        time: { created: 1_000, completed: 2_000 },
+      }
+      expect(toUsageRecord(completed)).toEqual({
+        messageID: 'msg_1',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4',
+        at: 2_000,
+        input: 10,
+        output: 20,
+        reasoning: 5,
+        cacheRead: 3,
+        cacheWrite: 4,
+        cost: 0.25,
+      })
+    })
+  })
+
+  test('getUsageWindowStart defaults to 5 hours', () => {
+    expect(getUsageWindowStart({ limits: [] }, 10 * 3_600_000)).toBe(
+      5 * 3_600_000
+    )
+    expect(
+      getUsageWindowStart({ windowHours: 1, limits: [] }, 10 * 3_600_000)
+    ).toBe(9 * 3_600_000)
+  })
+
+  describe('addUsageRecord', () => {
+    test('counts each message once', () => {
+      const record = createUsageRecord({ messageID: 'msg_1', input: 100 })
+      const state = addUsageRecord(emptyState(), record, 0)
+
+      expect(state?.records).toEqual([record])
+      expect(state && addUsageRecord(state, record, 0)).toBeNull()
+    })
+
+    test('drops records outside the window', () => {
+      const old = createUsageRecord({
+        messageID: 'msg_1',
+        at: 1_000,
+        input: 100,
+      })
+      const recent = createUsageRecord({
+        messageID: 'msg_2',
+        at: 5_000,
+        input: 100,
+      })
+      const state = addUsageRecord(
+        { records: [old], reached: [] },
+        recent,
+        2_000
+      )
+
+      expect(state?.records).toEqual([recent])
+    })
+  })
+
+  test('countTokens sums tokens per provider', () => {
+    const records = [
+      {
+        ...createUsageRecord({ messageID: 'msg_1', input: 100 }),
+        output: 50,
+        reasoning: 5,
+      },
+      createUsageRecord({ messageID: 'msg_2', provider: 'openai', input: 30 }),
+    ]
+
+    expect(countTokens(records)).toBe(185)
+    expect(countTokens(records, 'anthropic')).toBe(155)
+  })
+
+  describe('updateReachedLimits', () => {
+    const limit: UsageLimit = {
+      provider: 'anthropic',
+      tokens: 100,
+      mode: 'economy',
+    }
+    const limits = [limit]
+
+    test('reports a limit once when it is reached', () => {
+      const state = {
+        records: [createUsageRecord({ messageID: 'msg_1', input: 100 })],
+        reached: [],
+      }
+      const first = updateReachedLimits(state, limits)
+      const second = updateReachedLimits(first.state, limits)
+
+      expect(first.reached).toEqual([{ limit, index: 0, used: 100 }])
+      expect(second.reached).toEqual([])
+    })
+
+    test('forgets limits once usage drops below them', () => {
+      const result = updateReachedLimits({ records: [], reached: [0] }, limits)
+      expect(result.state.reached).toEqual([])
+    })
+  })
+
+  describe('state file', () => {
+    const testDir = useTempConfigDir('usage')
+
+    test('round-trips the usage state', async () => {
+      expect(await readUsageState()).toEqual(emptyState())
+
+      const state = {
+        records: [createUsageRecord({ messageID: 'msg_1', input: 100 })],
+        reached: [0],
+      }
+      await writeUsageState(state)
+      expect(await readUsageState()).toEqual(state)
+    })
+  })
+})
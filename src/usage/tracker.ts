@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Token usage tracking.
+ *
+ * The tokens of every completed assistant message are recorded per
+ * provider in `agent-mode-switcher-usage.json`, and only the records
+ * within a rolling window (5 hours by default, matching common provider
+ * quotas) are kept. Usage limits are checked against the window totals;
+ * a limit is reported once when it is reached and again only after usage
+ * has dropped below it.
+ *
+ * @module usage/tracker
+ */
+
+import type { AssistantMessage } from '@opencode-ai/sdk'
+import { isObject } from '../config/guards.ts'
+import { getUsageStatePath } from '../config/paths.ts'
+import { readJsonState, writeJsonState } from '../config/state.ts'
+import {
+  DEFAULT_USAGE_WINDOW_HOURS,
+  type UsageConfig,
+  type UsageLimit,
+} from '../config/types.ts'
+
+/**
+ * Tokens used by one assistant message.
+ */
+export interface UsageRecord {
+  /** ID of the message, used to count each message once */
+  messageID: string
+  provider: string
+  model: string
+  /** Completion time in milliseconds since the epoch */
+  at: number
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+  /** Cost in USD as reported by OpenCode */
+  cost: number
+}
+
+/**
+ * Persisted usage tracking state.
+ */
+export interface UsageState {
+  /** Records within the usage window, oldest first */
+  records: UsageRecord[]
+  /** Indexes of the limits reached, until usage drops below them */
+  reached: number[]
+}
+
+/**
+ * Usage measured against a limit.
+ */
+export interface UsageLimitStatus {
+  limit: UsageLimit
+  /** Index of the limit in the configuration */
+  index: number
+  /** Tokens counting towards the limit within the window */
+  used: number
+}
+
+/**
+ * Creates the usage record of an assistant message.
+ *
+ * @param message - The assistant message
+ * @returns The record, or null while the message is still being generated
+ */
+export function toUsageRecord(message: AssistantMessage): UsageRecord | null {
+  if (message.time.completed === undefined) {
+    return null
+  }
+  return {
+    messageID: message.id,
+    provider: message.providerID,
+    model: message.modelID,
+    at: message.time.completed,
+    input: message.tokens.input,
+    output: message.tokens.output,
+    reasoning: message.tokens.reasoning,
+    cacheRead: message.tokens.cache.read,
+    cacheWrite: message.tokens.cache.write,
+    cost: message.cost,
+  }
+}
+
+/**
+ * Gets the start of the usage window.
+ *
+ * @param config - The usage configuration
+ * @param now - The current time in milliseconds since the epoch
+ * @returns The window start in milliseconds since the epoch
+ */
+export function getUsageWindowStart(config: UsageConfig, now: number): number {
+  const hours = config.windowHours ?? DEFAULT_USAGE_WINDOW_HOURS
+  return now - hours * 60 * 60 * 1000
+}
+
+/**
+ * Adds a record to the usage state, dropping records outside the window.
+ *
+ * @param state - The usage state
+ * @param record - The record to add
+ * @param windowStart - Start of the usage window (see {@link getUsageWindowStart})
+ * @returns The new state, or null if the message was already recorded or
+ *   completed before the window
+ */
+export function addUsageRecord(
+  state: UsageState,
+  record: UsageRecord,
+  windowStart: number
+): UsageState | null {
+  const records = state.records.filter(({ at }) => at >= windowStart)
+  if (
+    record.at < windowStart ||
+    records.some(({ messageID }) => messageID === record.messageID)
+  ) {
+    return null
+  }
+  return { ...state, records: [...records, record] }
+}
+
+/**
+ * Sums the tokens of usage records.
+ *
+ * @param records - The usage records
+ * @param provider - Only count this provider (default: all providers)
+ * @returns Input, output and reasoning tokens
+ * @example
+ * ```typescript
+ * countTokens(state.records, 'anthropic') // 812345
+ * ```
+ */
+export function countTokens(records: UsageRecord[], provider?: string): number {
+  return records
+    .filter((record) => provider === undefined || record.provider === provider)
+    .reduce(
+      (total, record) =>
+        total + record.input + record.output + record.reasoning,
+      0
+    )
+}
+
+/**
+ * Measures usage against every limit.
+ *
+ * @param records - The usage records within the window
+ * @param limits - The configured limits
+ * @returns The usage of each limit
+ */
+export function getLimitStatus(
+  records: UsageRecord[],
+  limits: UsageLimit[]
+): UsageLimitStatus[] {
+  return limits.map((limit, index) => ({
+    limit,
+    index,
+    used: countTokens(records, limit.provider),
+  }))
+}
+
+/**
+ * Updates which limits are reached.
+ *
+ * @param state - The usage state
+ * @param limits - The configured limits
+ * @returns The new state and the limits reached since the last update
+ */
+export function updateReachedLimits(
+  state: UsageState,
+  limits: UsageLimit[]
+): { state: UsageState; reached: UsageLimitStatus[] } {
+  const status = getLimitStatus(state.records, limits)
+  const over = status.filter(({ limit, used }) => used >= limit.tokens)
+  return {
+    state: { ...state, reached: over.map(({ index }) => index) },
+    reached: over.filter(({ index }) => !state.reached.includes(index)),
+  }
+}
+
+/**
+ * Reads the usage state.
+ *
+ * @returns Promise resolving to the state, empty if none was recorded
+ */
+export async function readUsageState(): Promise<UsageState> {
+  const state = await readJsonState(
+    getUsageStatePath(),
+    (value): value is UsageState =>
+      isObject(value) &&
+      Array.isArray(value.records) &&
+      Array.isArray(value.reached)
+  )
+  // A missing or unreadable file starts a new window
+  return state ?? { records: [], reached: [] }
+}
+
+/**
+ * Writes the usage state.
+ *
+ * @param state - The usage state
+ * @returns Promise resolving when the state is written
+ */
+export async function writeUsageState(state: UsageState): Promise<void> {
+  await writeJsonState(getUsageStatePath(), state)
+}